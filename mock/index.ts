@@ -316,3 +316,23 @@ export const defaultRelationshipTypes = [
   { type: '因果关系', color: '#F44336' }, // 事件-事件
   { type: '构成/包含', color: '#9E9E9E' } // 实体间的组成关系
 ]
+
+// 默认事件类型
+export const defaultEventTypes = [
+  { type: '对话', color: '#795548', roles: ['说话人', '听话人', '时间', '地点'] },
+  { type: '迁移', color: '#607D8B', roles: ['人物', '出发地', '目的地', '时间'] }
+]
+
+export const defaultDocumentLabelTypes = [
+  { type: '小说', color: '#3F51B5' },
+  { type: '散文', color: '#009688' },
+  { type: '悲剧', color: '#9E9E9E' },
+  { type: '含个人信息', color: '#F44336' }
+]
+
+export const defaultLineLabelTypes = [
+  { type: '叙述', color: '#2196F3' },
+  { type: '对话', color: '#FF9800' },
+  { type: '心理', color: '#9C27B0' },
+  { type: '环境', color: '#4CAF50' }
+]
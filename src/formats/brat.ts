@@ -0,0 +1,258 @@
+// brat 标注格式（standoff：.txt 文本 + .ann 标注文件）的导入导出
+// 格式说明：https://brat.nlplab.org/standoff.html
+// brat 的偏移量为全文的 Unicode 码点偏移量
+import type { AnnotationFragment, AnnotationItem, AttributeValue, EventItem, FormatIssue, RelationshipItem } from '../types'
+import { createOffsetConverter, getEndLineId, getTextInRange, mergeFragments, getAnnotationRanges } from '../utils'
+
+export interface BratData {
+  annotations: AnnotationItem[]
+  relationships: RelationshipItem[]
+  events: EventItem[]
+}
+
+/**
+ * 解析 brat 标注
+ * T 行解析为标注，R 行解析为关系，E 行解析为事件，A/M 行解析为属性，# 行（AnnotatorNotes）解析为描述
+ * 其余内容（如 N 规范化、* 等价关系）以及无法解析的行记录在 issues 中
+ */
+export function parseBrat(text: string, ann: string): BratData & { issues: FormatIssue[] } {
+  const converter = createOffsetConverter(text, 'codepoint')
+  const lines = text.split('\n').map(content => ({ content }))
+  const issues: FormatIssue[] = []
+  const annotations = new Map<string, AnnotationItem>()
+  const relationships = new Map<string, RelationshipItem>()
+  const events = new Map<string, EventItem>()
+
+  const rows = ann
+    .split(/\r?\n/)
+    .map((raw, index) => ({ raw, line: index + 1, fields: raw.split('\t') }))
+    .filter(row => row.raw.trim() !== '')
+  const report = (row: { raw: string; line: number }, message: string) => issues.push({ line: row.line, text: row.raw, message })
+
+  // 先解析实体（T 行），其余内容可能引用实体
+  for (const row of rows) {
+    const [id, spec = '', spanText = ''] = row.fields
+    if (!id.startsWith('T')) continue
+
+    const [type, ...rangeParts] = spec.split(' ')
+    const ranges = rangeParts
+      .join(' ')
+      .split(';')
+      .map(part => part.trim().split(/\s+/).map(Number))
+    if (!type || ranges.length === 0 || ranges.some(range => range.length !== 2 || range.some(value => !Number.isInteger(value)))) {
+      report(row, '无法解析的实体')
+      continue
+    }
+
+    const fragments = mergeLineBreakFragments(
+      ranges.map(([start, end]) => {
+        const range = converter.toLineRange(start, end)
+        return { ...range, content: getTextInRange(lines, range.lineId, range.start, getEndLineId(range), range.end) }
+      }),
+      lines
+    )
+    const annotation: AnnotationItem = { id, type, description: '', ...mergeFragments(fragments) }
+    if (spanText && spanText !== fragments.map(fragment => fragment.content.replace(/\n/g, ' ')).join(' ')) {
+      report(row, '实体文本与原文不一致，已按偏移量导入')
+    }
+    annotations.set(id, annotation)
+  }
+
+  for (const row of rows) {
+    const [id, spec = '', extra = ''] = row.fields
+    const kind = id.charAt(0)
+    if (kind === 'T') continue
+
+    if (kind === 'R') {
+      // R1	Type Arg1:T1 Arg2:T2
+      const [type, ...args] = spec.split(' ')
+      const targets = args.map(arg => arg.split(':')[1])
+      if (!type || targets.length !== 2 || targets.some(target => !annotations.has(target))) {
+        report(row, '关系必须且只能连接两个已有的实体')
+        continue
+      }
+      relationships.set(id, { id, startId: targets[0], endId: targets[1], type, description: '' })
+    } else if (kind === 'E') {
+      // E1	Type:T1 Role:T2 Role2:T3
+      const [trigger, ...args] = spec.split(' ').map(part => part.split(':'))
+      const [type, triggerId] = trigger
+      if (!type || !annotations.has(triggerId)) {
+        report(row, '事件的触发词不存在')
+        continue
+      }
+      const eventArguments = args.filter(([role, annotationId]) => role && annotations.has(annotationId))
+      if (eventArguments.length < args.length) {
+        report(row, '事件的部分论元不是实体，已忽略')
+      }
+      events.set(id, { id, triggerId, type, arguments: eventArguments.map(([role, annotationId]) => ({ role, annotationId })), description: '' })
+    } else if (kind === 'A' || kind === 'M') {
+      // A1	Name T1 [Value]，没有值的为二元属性
+      const [name, targetId, value] = spec.split(' ')
+      const target = annotations.get(targetId) || relationships.get(targetId)
+      if (!name || !target) {
+        report(row, '属性的目标不存在或不支持')
+        continue
+      }
+      const attributeValue: AttributeValue = value === undefined ? true : value
+      target.attributes = { ...target.attributes, [name]: attributeValue }
+    } else if (kind === '#') {
+      // #1	AnnotatorNotes T1	Note
+      const targetId = spec.split(' ')[1]
+      const target = annotations.get(targetId) || relationships.get(targetId) || events.get(targetId)
+      if (!target) {
+        report(row, '注释的目标不存在')
+        continue
+      }
+      target.description = target.description ? `${target.description}\n${extra}` : extra
+    } else {
+      report(row, `不支持的标注类型 ${kind}`)
+    }
+  }
+
+  return { annotations: [...annotations.values()], relationships: [...relationships.values()], events: [...events.values()], issues }
+}
+
+/**
+ * 生成 brat 标注文件（.ann）内容
+ * 标注、关系、事件的 id 符合 brat 格式（如 T1、R2、E3）时保留，否则重新编号
+ * brat 的实体不能跨行，跨行标注按行拆分为多个片段；类型、属性等名称中的空白字符替换为下划线
+ */
+export function serializeBrat(text: string, data: BratData): { ann: string; issues: FormatIssue[] } {
+  const converter = createOffsetConverter(text, 'codepoint')
+  const lines = text.split('\n').map(content => ({ content }))
+  const issues: FormatIssue[] = []
+  const output: string[] = []
+  const annotationIds = assignBratIds(data.annotations, 'T')
+  const relationshipIds = assignBratIds(data.relationships, 'R')
+  const eventIds = assignBratIds(data.events, 'E')
+  let attributeCount = 0
+  let noteCount = 0
+
+  const renamed = new Set<string>()
+  const toName = (name: string, kind: string) => {
+    const result = name.trim().replace(/\s+/g, '_')
+    if (result !== name && !renamed.has(name)) {
+      renamed.add(name)
+      issues.push({ text: name, message: `${kind}名称中的空白字符已替换为下划线` })
+    }
+    return result
+  }
+  const writeExtras = (bratId: string, item: { description: string; attributes?: Record<string, AttributeValue> }) => {
+    for (const [name, value] of Object.entries(item.attributes || {})) {
+      if (value === false) continue
+      const valuePart = value === true ? '' : ` ${toName(String(value), '属性值')}`
+      output.push(`A${++attributeCount}\t${toName(name, '属性')} ${bratId}${valuePart}`)
+    }
+    if (item.description) {
+      output.push(`#${++noteCount}\tAnnotatorNotes ${bratId}\t${item.description.replace(/\s*\n\s*/g, ' ')}`)
+    }
+  }
+
+  for (const annotation of data.annotations) {
+    const bratId = annotationIds.get(annotation.id)!
+    const segments = splitByLine(getAnnotationRanges(annotation), lines)
+    if (segments.length === 0) {
+      issues.push({ text: annotation.content, message: `标注 ${annotation.id} 的范围为空，已跳过` })
+      continue
+    }
+    const ranges = segments.map(segment => converter.toGlobalRange(segment))
+    const spanText = segments.map(segment => lines[segment.lineId].content.slice(segment.start, segment.end)).join(' ')
+    output.push(`${bratId}\t${toName(annotation.type, '类型')} ${ranges.map(range => `${range.start} ${range.end}`).join(';')}\t${spanText}`)
+    writeExtras(bratId, annotation)
+  }
+
+  for (const relationship of data.relationships) {
+    const startId = annotationIds.get(relationship.startId)
+    const endId = annotationIds.get(relationship.endId)
+    if (!startId || !endId) {
+      issues.push({ message: `关系 ${relationship.id} 的端点不存在，已跳过` })
+      continue
+    }
+    const bratId = relationshipIds.get(relationship.id)!
+    output.push(`${bratId}\t${toName(relationship.type, '类型')} Arg1:${startId} Arg2:${endId}`)
+    writeExtras(bratId, relationship)
+  }
+
+  for (const event of data.events) {
+    const triggerId = annotationIds.get(event.triggerId)
+    if (!triggerId) {
+      issues.push({ message: `事件 ${event.id} 的触发词不存在，已跳过` })
+      continue
+    }
+    const bratId = eventIds.get(event.id)!
+    const args = event.arguments
+      .filter(argument => argument.role && annotationIds.has(argument.annotationId))
+      .map(argument => ` ${toName(argument.role, '角色')}:${annotationIds.get(argument.annotationId)}`)
+    output.push(`${bratId}\t${toName(event.type, '类型')}:${triggerId}${args.join('')}`)
+    writeExtras(bratId, event)
+  }
+
+  return { ann: output.length > 0 ? `${output.join('\n')}\n` : '', issues }
+}
+
+/**
+ * 为数据分配 brat id：原 id 符合格式（前缀 + 数字）且不重复时保留，其余按顺序编号
+ */
+function assignBratIds(items: Array<{ id: string }>, prefix: string): Map<string, string> {
+  const pattern = new RegExp(`^${prefix}\\d+$`)
+  const ids = new Map<string, string>()
+  const used = new Set<string>()
+  for (const item of items) {
+    if (pattern.test(item.id) && !used.has(item.id)) {
+      ids.set(item.id, item.id)
+      used.add(item.id)
+    }
+  }
+  let count = 0
+  for (const item of items) {
+    if (ids.has(item.id)) continue
+    let id = `${prefix}${++count}`
+    while (used.has(id)) {
+      id = `${prefix}${++count}`
+    }
+    ids.set(item.id, id)
+    used.add(id)
+  }
+  return ids
+}
+
+/**
+ * 将范围按行拆分为单行片段（去掉空片段）
+ */
+function splitByLine(ranges: Array<AnnotationItem | AnnotationFragment>, lines: Array<{ content: string }>) {
+  const segments: Array<{ lineId: number; start: number; end: number }> = []
+  for (const range of ranges) {
+    const endLineId = getEndLineId(range)
+    for (let lineId = range.lineId; lineId <= endLineId; lineId++) {
+      const start = lineId === range.lineId ? range.start : 0
+      const end = lineId === endLineId ? range.end : (lines[lineId]?.content.length ?? 0)
+      if (end > start) {
+        segments.push({ lineId, start, end })
+      }
+    }
+  }
+  return segments
+}
+
+/**
+ * 合并恰好被换行隔开的相邻片段（导出时按行拆分的跨行标注，导入时还原为一个跨行范围）
+ */
+function mergeLineBreakFragments(fragments: AnnotationFragment[], lines: Array<{ content: string }>): AnnotationFragment[] {
+  const merged: AnnotationFragment[] = []
+  for (const fragment of fragments) {
+    const previous = merged[merged.length - 1]
+    const previousEndLineId = previous ? getEndLineId(previous) : -1
+    if (previous && fragment.lineId === previousEndLineId + 1 && fragment.start === 0 && previous.end === lines[previousEndLineId]?.content.length) {
+      merged[merged.length - 1] = {
+        lineId: previous.lineId,
+        start: previous.start,
+        end: fragment.end,
+        endLineId: getEndLineId(fragment),
+        content: `${previous.content}\n${fragment.content}`
+      }
+    } else {
+      merged.push(fragment)
+    }
+  }
+  return merged
+}
@@ -0,0 +1,183 @@
+// CoNLL 序列标注格式（每行一个词元及其 BIO/BIOES 标签，句子之间以空行分隔）的导入导出
+// 每个段落导出为一个句子，导入时每个句子还原为一个段落
+import type { AnnotationItem, ConllExportOptions, ConllImportOptions, FormatIssue, TokenSpan, Tokenizer } from '../types'
+
+/**
+ * 默认分词器：中日韩文字按字切分，其余文字按空白和标点切分，标点符号单独成词
+ */
+export const defaultTokenizer: Tokenizer = text => {
+  const pattern =
+    /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|[^\s\p{P}\p{S}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+|\S/gu
+  return [...text.matchAll(pattern)].map(match => ({ start: match.index!, end: match.index! + match[0].length }))
+}
+
+/**
+ * 将分词器的结果统一为词元位置（返回词元文本时按顺序在段落中查找），找不到的词元记录在 issues 中
+ */
+function tokenize(text: string, tokenizer: Tokenizer, lineId: number, issues: FormatIssue[]): TokenSpan[] {
+  const spans: TokenSpan[] = []
+  let cursor = 0
+  for (const token of tokenizer(text)) {
+    if (typeof token !== 'string') {
+      spans.push(token)
+      continue
+    }
+    const start = text.indexOf(token, cursor)
+    if (token === '' || start < 0) {
+      issues.push({ line: lineId + 1, text: token, message: '分词结果在段落中找不到，已忽略' })
+      continue
+    }
+    spans.push({ start, end: start + token.length })
+    cursor = start + token.length
+  }
+  return spans
+}
+
+/**
+ * 生成 CoNLL 格式内容
+ * 标注边界与词元边界不一致、跨行、非连续或与其他标注重叠的标注无法表示，会被跳过并记录在 issues 中
+ */
+export function serializeConll(
+  lines: Array<{ content: string }>,
+  annotations: AnnotationItem[],
+  options: ConllExportOptions = {}
+): { conll: string; issues: FormatIssue[] } {
+  const { scheme = 'BIO', tokenizer = defaultTokenizer, delimiter = '\t' } = options
+  const issues: FormatIssue[] = []
+  const sentences: string[] = []
+
+  const annotationsByLine = new Map<number, AnnotationItem[]>()
+  for (const annotation of annotations) {
+    if (annotation.fragments && annotation.fragments.length > 1) {
+      issues.push({ text: annotation.content, message: `标注 ${annotation.id} 为非连续标注，序列标注无法表示，已跳过` })
+    } else if (annotation.endLineId !== undefined && annotation.endLineId !== annotation.lineId) {
+      issues.push({ text: annotation.content, message: `标注 ${annotation.id} 跨越多个段落，序列标注无法表示，已跳过` })
+    } else {
+      annotationsByLine.set(annotation.lineId, [...(annotationsByLine.get(annotation.lineId) || []), annotation])
+    }
+  }
+
+  lines.forEach((line, lineId) => {
+    const tokens = tokenize(line.content, tokenizer, lineId, issues)
+    if (tokens.length === 0) return
+    const tags: string[] = tokens.map(() => 'O')
+
+    // 按起始位置排序，同一位置较长的标注优先
+    const lineAnnotations = [...(annotationsByLine.get(lineId) || [])].sort((a, b) => a.start - b.start || b.end - a.end)
+    for (const annotation of lineAnnotations) {
+      const first = tokens.findIndex(token => token.start === annotation.start)
+      const last = tokens.findIndex(token => token.end === annotation.end)
+      if (first < 0 || last < first) {
+        issues.push({ line: lineId + 1, text: annotation.content, message: `标注 ${annotation.id} 的边界与分词边界不一致，已跳过` })
+        continue
+      }
+      if (tags.slice(first, last + 1).some(tag => tag !== 'O')) {
+        issues.push({ line: lineId + 1, text: annotation.content, message: `标注 ${annotation.id} 与其他标注重叠，已跳过` })
+        continue
+      }
+      const type = annotation.type.trim().replace(/\s+/g, '_')
+      for (let index = first; index <= last; index++) {
+        tags[index] = getTag(scheme, index - first, last - first + 1, type)
+      }
+    }
+
+    sentences.push(tokens.map((token, index) => `${line.content.slice(token.start, token.end)}${delimiter}${tags[index]}`).join('\n'))
+  })
+
+  return { conll: sentences.length > 0 ? `${sentences.join('\n\n')}\n` : '', issues }
+}
+
+/**
+ * 解析 CoNLL 格式内容
+ * 每行第一列为词元，最后一列为标签，支持 BIO、BIOES（以及 BILOU）标签；-DOCSTART- 行会被忽略
+ * 不合法的标签序列（如 I- 前面不是同类型的标签）按新标注的开始处理，并记录在 issues 中
+ */
+export function parseConll(conll: string, options: ConllImportOptions = {}): { content: string; annotations: AnnotationItem[]; issues: FormatIssue[] } {
+  const { joiner } = options
+  const issues: FormatIssue[] = []
+  const paragraphs: string[] = []
+  const annotations: AnnotationItem[] = []
+
+  let text = ''
+  let current: AnnotationItem | null = null
+  const closeAnnotation = () => {
+    if (current) {
+      current.content = text.slice(current.start, current.end)
+      annotations.push(current)
+      current = null
+    }
+  }
+  const closeSentence = () => {
+    closeAnnotation()
+    if (text !== '') {
+      paragraphs.push(text)
+      text = ''
+    }
+  }
+
+  conll.split(/\r?\n/).forEach((raw, index) => {
+    const fields = raw.trim().split(/\s+/)
+    if (fields[0] === '') {
+      closeSentence()
+      return
+    }
+    if (fields[0] === '-DOCSTART-') return
+
+    const token = fields[0]
+    const tag = fields.length > 1 ? fields[fields.length - 1] : 'O'
+    if (text !== '') {
+      text += joiner ?? (needsSpace(text, token) ? ' ' : '')
+    }
+    const start = text.length
+    text += token
+    const end = text.length
+
+    const match = /^([BIESLU])-(.+)$/.exec(tag)
+    if (!match) {
+      if (tag !== 'O') {
+        issues.push({ line: index + 1, text: raw, message: `无法识别的标签 ${tag}，已按 O 处理` })
+      }
+      closeAnnotation()
+      return
+    }
+
+    const [, prefix, type] = match
+    const continues = prefix === 'I' || prefix === 'E' || prefix === 'L'
+    if (continues && current && current.type === type) {
+      current.end = end
+    } else {
+      if (continues) {
+        issues.push({ line: index + 1, text: raw, message: `标签 ${tag} 前面没有同类型的开始标签，已作为新标注的开始` })
+      }
+      closeAnnotation()
+      current = { id: `T${annotations.length + 1}`, lineId: paragraphs.length, start, end, content: '', type, description: '' }
+    }
+    // 单个词元（S-、U-）和结束（E-、L-）标签结束当前标注
+    if (prefix === 'S' || prefix === 'U' || prefix === 'E' || prefix === 'L') {
+      closeAnnotation()
+    }
+  })
+  closeSentence()
+
+  return { content: paragraphs.join('\n'), annotations, issues }
+}
+
+const SPACELESS_CHAR = '[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\u3000-\\u303f\\uff00-\\uffef]'
+
+/**
+ * 两段文本之间是否需要空格：中文、日文假名及全角标点前后不需要
+ */
+function needsSpace(previous: string, next: string): boolean {
+  return !new RegExp(`${SPACELESS_CHAR}$`, 'u').test(previous) && !new RegExp(`^${SPACELESS_CHAR}`, 'u').test(next)
+}
+
+/**
+ * 计算标注中第 index 个词元（共 count 个）的标签
+ */
+function getTag(scheme: ConllExportOptions['scheme'], index: number, count: number, type: string): string {
+  if (scheme === 'BIOES') {
+    if (count === 1) return `S-${type}`
+    if (index === count - 1) return `E-${type}`
+  }
+  return index === 0 ? `B-${type}` : `I-${type}`
+}
@@ -0,0 +1,135 @@
+// doccano JSONL（每行一个文档）的导入导出
+// 支持序列标注 + 关系抽取格式（entities、relations）以及仅序列标注格式（label: [[start, end, label]]）
+import type { AnnotationItem, DoccanoDocument, DoccanoEntity, DoccanoRelation, FormatIssue, OffsetUnit, RelationshipItem } from '../types'
+import { createOffsetConverter, getEndLineId, getTextInRange } from '../utils'
+
+/**
+ * 解析 JSONL 内容，每个非空行解析为一个文档，无法解析的行记录在 issues 中
+ */
+export function parseJsonl(jsonl: string): { documents: DoccanoDocument[]; issues: FormatIssue[] } {
+  const documents: DoccanoDocument[] = []
+  const issues: FormatIssue[] = []
+  jsonl.split(/\r?\n/).forEach((raw, index) => {
+    if (raw.trim() === '') return
+    try {
+      const document = JSON.parse(raw)
+      if (typeof document?.text !== 'string') throw new Error('缺少 text 字段')
+      documents.push(document)
+    } catch {
+      issues.push({ line: index + 1, text: raw, message: '无法解析的文档，已跳过' })
+    }
+  })
+  return { documents, issues }
+}
+
+/**
+ * 解析 doccano 文档：实体导入为标注，关系导入为关系，实体id、关系id 转为字符串作为数据id
+ */
+export function parseDoccano(
+  document: DoccanoDocument,
+  unit: OffsetUnit
+): { content: string; annotations: AnnotationItem[]; relationships: RelationshipItem[]; issues: FormatIssue[] } {
+  const content = document.text
+  const converter = createOffsetConverter(content, unit)
+  const lines = content.split('\n').map(content => ({ content }))
+  const issues: FormatIssue[] = []
+
+  const entities: DoccanoEntity[] =
+    document.entities || (document.label || []).map(([start_offset, end_offset, label], index) => ({ id: index + 1, label, start_offset, end_offset }))
+  const annotations: AnnotationItem[] = []
+  for (const entity of entities) {
+    const { id, label, start_offset: start, end_offset: end } = entity
+    if (id === undefined || !Number.isInteger(start) || !Number.isInteger(end) || end <= start) {
+      issues.push({ text: JSON.stringify(entity), message: '无法解析的实体' })
+      continue
+    }
+    const range = converter.toLineRange(start, end)
+    const annotationContent = getTextInRange(lines, range.lineId, range.start, getEndLineId(range), range.end)
+    annotations.push({ id: String(id), ...range, content: annotationContent, type: label || '', description: '' })
+  }
+
+  const annotationIds = new Set(annotations.map(annotation => annotation.id))
+  const relationships: RelationshipItem[] = []
+  for (const relation of document.relations || []) {
+    const startId = String(relation.from_id)
+    const endId = String(relation.to_id)
+    if (!annotationIds.has(startId) || !annotationIds.has(endId)) {
+      issues.push({ text: JSON.stringify(relation), message: '关系连接的实体不存在' })
+      continue
+    }
+    relationships.push({ id: String(relation.id ?? `${startId}-${endId}`), startId, endId, type: relation.type || '', description: '' })
+  }
+
+  return { content, annotations, relationships, issues }
+}
+
+/**
+ * 生成 doccano 文档
+ * 传入 source（导入时的原文档）时保留文档id 等其余字段，原文档为仅序列标注格式时按该格式输出（不含关系）
+ * id 为数字的标注、关系保留原 id，其余重新编号；非连续标注无法表示，会被跳过并记录在 issues 中
+ */
+export function serializeDoccano(
+  content: string,
+  data: { annotations: AnnotationItem[]; relationships: RelationshipItem[] },
+  unit: OffsetUnit,
+  source?: DoccanoDocument
+): { document: DoccanoDocument; issues: FormatIssue[] } {
+  const converter = createOffsetConverter(content, unit)
+  const issues: FormatIssue[] = []
+  const annotations = data.annotations.filter(annotation => {
+    if (annotation.fragments && annotation.fragments.length > 1) {
+      issues.push({ text: annotation.content, message: `标注 ${annotation.id} 为非连续标注，doccano 无法表示，已跳过` })
+      return false
+    }
+    return true
+  })
+  const entityIds = assignNumericIds(annotations)
+  const entities: DoccanoEntity[] = annotations.map(annotation => {
+    const { start, end } = converter.toGlobalRange(annotation)
+    return { id: entityIds.get(annotation.id)!, label: annotation.type, start_offset: start, end_offset: end }
+  })
+
+  const { entities: _entities, relations: _relations, label: _label, ...rest } = source || {}
+  if (source && !source.entities && source.label) {
+    if (data.relationships.length > 0) {
+      issues.push({ message: '原文档为仅序列标注格式，关系未导出' })
+    }
+    return { document: { ...rest, text: content, label: entities.map(entity => [entity.start_offset, entity.end_offset, entity.label]) }, issues }
+  }
+
+  const relationships = data.relationships.filter(relationship => {
+    if (!entityIds.has(relationship.startId) || !entityIds.has(relationship.endId)) {
+      issues.push({ text: relationship.id, message: `关系 ${relationship.id} 的端点没有导出，已跳过` })
+      return false
+    }
+    return true
+  })
+  const relationIds = assignNumericIds(relationships)
+  const relations: DoccanoRelation[] = relationships.map(relationship => ({
+    id: relationIds.get(relationship.id)!,
+    from_id: entityIds.get(relationship.startId)!,
+    to_id: entityIds.get(relationship.endId)!,
+    type: relationship.type
+  }))
+
+  return { document: { ...rest, text: content, entities, relations }, issues }
+}
+
+/**
+ * 为数据分配数字 id：原 id 为数字且不重复时保留，其余从最大 id 之后依次编号
+ */
+function assignNumericIds(items: Array<{ id: string }>): Map<string, number> {
+  const ids = new Map<string, number>()
+  for (const item of items) {
+    if (/^\d+$/.test(item.id) && ![...ids.values()].includes(Number(item.id))) {
+      ids.set(item.id, Number(item.id))
+    }
+  }
+  let next = Math.max(0, ...ids.values()) + 1
+  for (const item of items) {
+    if (!ids.has(item.id)) {
+      ids.set(item.id, next++)
+    }
+  }
+  return ids
+}
@@ -0,0 +1,217 @@
+// 将标注后的文档导出为独立的 HTML 或 Markdown，方便没有组件的审阅者阅读
+// 标注的高亮片段与组件渲染时一致（getLineAnnotationSegments），片段文本与原文不一致的标注不显示
+import type { AnnotationItem, AnnotationType, DocumentExportOptions, LineItem, RelationshipItem, RelationshipType } from '../types'
+import { countAnnotationsByType, getAnnotationColor, getAnnotationRanges, getLineAnnotationSegments, getTypePath, resolveTypeColor } from '../utils'
+
+interface DocumentData {
+  annotations: AnnotationItem[]
+  relationships: RelationshipItem[]
+  annotationType: AnnotationType[]
+  relationshipType: RelationshipType[]
+}
+
+const DEFAULT_TITLE = '标注文档'
+const DEFAULT_ANNOTATION_COLOR = '#3271ae'
+const DEFAULT_LINE_COLOR = '#c3427f'
+
+const HTML_STYLE = `
+body { max-width: 960px; margin: 2rem auto; padding: 0 1rem; font-family: system-ui, sans-serif; color: #333; }
+h1 { font-size: 1.5rem; }
+h2 { font-size: 1.125rem; margin-top: 2rem; }
+.legend { display: flex; flex-wrap: wrap; gap: 0.5rem 1rem; padding: 0; list-style: none; font-size: 0.875rem; }
+.legend-item { display: inline-flex; align-items: center; gap: 0.25rem; }
+.legend-swatch { width: 0.75rem; height: 0.75rem; border-radius: 2px; background: var(--color); }
+.document p { margin: 0 0 0.75rem; line-height: 2.25; white-space: pre-wrap; }
+.annotation { padding: 0 1px; color: inherit; background: color-mix(in srgb, var(--color) 15%, transparent); border-bottom: 2px solid var(--color); }
+.annotation-type { margin-left: 2px; padding: 0 0.25rem; border-radius: 2px; font-size: 0.625rem; vertical-align: super; color: #fff; background: var(--color); }
+.relationships li { margin-bottom: 0.25rem; }
+.relationships a { color: inherit; }
+.relationship-type { margin: 0 0.25rem; color: var(--color); }
+.relationship-description { color: #888; }
+`.trim()
+
+/**
+ * 生成独立的 HTML 文档：类型图例、带类型标签的高亮文本、关系列表
+ * 嵌套/重叠的标注渲染为嵌套的高亮，鼠标悬停显示类型路径和描述
+ */
+export function serializeHTML(lines: LineItem[], data: DocumentData, options: DocumentExportOptions = {}): string {
+  const { title = DEFAULT_TITLE } = options
+  const colorOf = (annotation: AnnotationItem) => getAnnotationColor(annotation, data.annotationType)
+
+  const legend = getLegendTypes(data).map(
+    ({ type, color, count }) =>
+      `<li class="legend-item" style="--color: ${escapeHtml(color)}" title="${escapeHtml(getTypePath(type, data.annotationType))}"><span class="legend-swatch"></span>${escapeHtml(type)} (${count})</li>`
+  )
+
+  const paragraphs = lines.map(line => {
+    const segments = getLineAnnotationSegments(data.annotations, line).filter(
+      ({ segment }) => segment.end > segment.start && line.content.substring(segment.start, segment.end) === segment.content
+    )
+    const boundaries = [...new Set([0, line.content.length, ...segments.flatMap(({ segment }) => [segment.start, segment.end])])].sort((a, b) => a - b)
+
+    const pieces: string[] = []
+    for (let index = 0; index < boundaries.length - 1; index++) {
+      const start = boundaries[index]
+      const end = boundaries[index + 1]
+      // 覆盖该片段的标注，由外到内（起点靠前、范围较长的在外层）
+      const covering = segments
+        .filter(({ segment }) => segment.start <= start && segment.end >= end)
+        .sort((a, b) => a.segment.start - b.segment.start || b.segment.end - a.segment.end)
+      let html = escapeHtml(line.content.substring(start, end))
+      for (const { annotation, part, segment } of [...covering].reverse()) {
+        const isHead = segment.isFirst && part === 0
+        const description = annotation.description ? `: ${annotation.description}` : ''
+        const attributes = [
+          isHead && segment.start === start ? ` id="annotation-${escapeHtml(annotation.id)}"` : '',
+          ` class="annotation"`,
+          ` style="--color: ${escapeHtml(colorOf(annotation))}"`,
+          ` title="${escapeHtml(getTypePath(annotation.type, data.annotationType) + description)}"`
+        ]
+        // 与组件一致，跨行标注、非连续标注只在第一个片段显示类型标签
+        const label = isHead && segment.end === end ? `<span class="annotation-type">${escapeHtml(annotation.type)}</span>` : ''
+        html = `<mark${attributes.join('')}>${html}${label}</mark>`
+      }
+      pieces.push(html)
+    }
+    return `<p id="line-${line.id}">${pieces.join('') || '&nbsp;'}</p>`
+  })
+
+  const annotationById = new Map(data.annotations.map(annotation => [annotation.id, annotation]))
+  const relationships = data.relationships.flatMap(relationship => {
+    const start = annotationById.get(relationship.startId)
+    const end = annotationById.get(relationship.endId)
+    if (!start || !end) return []
+    const color = getRelationshipColor(relationship, data.relationshipType)
+    const description = relationship.description ? ` <span class="relationship-description">${escapeHtml(relationship.description)}</span>` : ''
+    return [
+      `<li><a href="#annotation-${escapeHtml(start.id)}">${escapeHtml(start.content)}</a>` +
+        `<span class="relationship-type" style="--color: ${escapeHtml(color)}">→ ${escapeHtml(relationship.type)} →</span>` +
+        `<a href="#annotation-${escapeHtml(end.id)}">${escapeHtml(end.content)}</a>${description}</li>`
+    ]
+  })
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="zh-CN">',
+    '<head>',
+    '<meta charset="UTF-8" />',
+    '<meta name="viewport" content="width=device-width, initial-scale=1.0" />',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>\n${HTML_STYLE}\n</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(title)}</h1>`,
+    legend.length > 0 ? `<ul class="legend">\n${legend.join('\n')}\n</ul>` : '',
+    `<main class="document">\n${paragraphs.join('\n')}\n</main>`,
+    relationships.length > 0 ? `<section class="relationships">\n<h2>关系</h2>\n<ol>\n${relationships.join('\n')}\n</ol>\n</section>` : '',
+    '</body>',
+    '</html>'
+  ]
+    .filter(part => part !== '')
+    .join('\n')
+    .concat('\n')
+}
+
+/**
+ * 生成 Markdown 文档：标注文本加粗并在标注末尾添加脚注引用，脚注中说明类型和描述，文末附关系列表
+ * Markdown 无法表示嵌套的加粗，与已加粗文本重叠的标注只添加脚注引用
+ */
+export function serializeMarkdown(lines: LineItem[], data: DocumentData, options: DocumentExportOptions = {}): string {
+  const { title = DEFAULT_TITLE } = options
+
+  // 按在文本中出现的顺序为标注编号
+  const ordered = [...data.annotations].sort((a, b) => a.lineId - b.lineId || a.start - b.start)
+  const footnotes = new Map(ordered.map((annotation, index) => [annotation.id, index + 1]))
+
+  const paragraphs = lines.map(line => {
+    const segments = getLineAnnotationSegments(data.annotations, line).filter(
+      ({ segment }) => segment.end > segment.start && line.content.substring(segment.start, segment.end) === segment.content
+    )
+    // 每个位置插入的标记：先闭合加粗，再添加脚注引用，最后开始新的加粗
+    const inserts = new Map<number, { close: string; refs: string; open: string }>()
+    const insertAt = (position: number) => {
+      if (!inserts.has(position)) inserts.set(position, { close: '', refs: '', open: '' })
+      return inserts.get(position)!
+    }
+    let boldEnd = 0
+    for (const { annotation, part, segment } of segments) {
+      if (segment.start >= boldEnd) {
+        insertAt(segment.start).open = '**'
+        insertAt(segment.end).close = '**'
+        boldEnd = segment.end
+      }
+      const isTail = segment.isLast && part === getAnnotationRanges(annotation).length - 1
+      if (isTail) {
+        insertAt(segment.end).refs += `[^${footnotes.get(annotation.id)}]`
+      }
+    }
+
+    const positions = [...new Set([0, line.content.length, ...inserts.keys()])].sort((a, b) => a - b)
+    let markdown = ''
+    positions.forEach((position, index) => {
+      const insert = inserts.get(position)
+      if (insert) markdown += insert.close + insert.refs + insert.open
+      const next = positions[index + 1]
+      if (next !== undefined) markdown += escapeMarkdown(line.content.substring(position, next))
+    })
+    return escapeMarkdownLineStart(markdown)
+  })
+
+  const annotationById = new Map(data.annotations.map(annotation => [annotation.id, annotation]))
+  const relationships = data.relationships.flatMap(relationship => {
+    const start = annotationById.get(relationship.startId)
+    const end = annotationById.get(relationship.endId)
+    if (!start || !end) return []
+    const description = relationship.description ? `（${escapeMarkdown(flattenText(relationship.description))}）` : ''
+    return [
+      `- ${escapeMarkdown(flattenText(start.content))}[^${footnotes.get(start.id)}] → ${escapeMarkdown(relationship.type)} → ` +
+        `${escapeMarkdown(flattenText(end.content))}[^${footnotes.get(end.id)}]${description}`
+    ]
+  })
+
+  const notes = ordered.map(annotation => {
+    const description = annotation.description ? ` — ${escapeMarkdown(flattenText(annotation.description))}` : ''
+    const typePath = escapeMarkdown(getTypePath(annotation.type, data.annotationType))
+    return `[^${footnotes.get(annotation.id)}]: **${typePath}**：${escapeMarkdown(flattenText(annotation.content))}${description}`
+  })
+
+  const sections = [`# ${escapeMarkdown(title)}`, paragraphs.filter(paragraph => paragraph !== '').join('\n\n')]
+  if (relationships.length > 0) sections.push(`## 关系\n\n${relationships.join('\n')}`)
+  if (notes.length > 0) sections.push(notes.join('\n'))
+  return `${sections.join('\n\n')}\n`
+}
+
+/**
+ * 图例中的类型：按 annotationType 的顺序列出，附带标注数量；标注中使用了但未配置的类型排在最后
+ */
+function getLegendTypes(data: DocumentData): Array<{ type: string; color: string; count: number }> {
+  const counts = countAnnotationsByType(data.annotations, data.annotationType)
+  const typeNames = [...data.annotationType.map(type => type.type), ...Object.keys(counts)]
+  return [...new Set(typeNames)].map(type => ({
+    type,
+    color: resolveTypeColor(type, data.annotationType) || DEFAULT_ANNOTATION_COLOR,
+    count: counts[type] || 0
+  }))
+}
+
+function getRelationshipColor(relationship: RelationshipItem, relationshipTypes: RelationshipType[]): string {
+  return relationship.color || relationshipTypes.find(type => type.type === relationship.type)?.color || DEFAULT_LINE_COLOR
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>|~]/g, '\\$&')
+}
+
+// 段落开头的 #、>、-、+、1. 等会被解析为标题、引用或列表，需要转义
+function escapeMarkdownLineStart(text: string): string {
+  return text.replace(/^(\s*)([#>+-]|\d+(?=[.)]))/, (_, space: string, marker: string) => `${space}${/\d/.test(marker) ? `${marker}\\` : `\\${marker}`}`)
+}
+
+// 脚注和列表项只能是一行，换行替换为空格
+function flattenText(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ')
+}
@@ -0,0 +1,163 @@
+// 将标注和关系导出为图：标注为节点，关系为有向边
+// 支持 GraphML（Gephi、yEd 等）、Graphviz DOT、Neo4j Cypher CREATE 脚本
+import type { AnnotationItem, GraphEdge, GraphExportOptions, GraphNode, RelationshipItem } from '../types'
+
+/**
+ * 构建图：每个标注为一个节点，每个关系为一条边
+ * 开启 mergeEntities 时，文本和类型都相同的标注合并为一个节点，连到这些标注的关系都连到合并后的节点
+ */
+export function buildGraph(
+  annotations: AnnotationItem[],
+  relationships: RelationshipItem[],
+  options: GraphExportOptions = {}
+): { nodes: GraphNode[]; edges: GraphEdge[] } {
+  const nodes: GraphNode[] = []
+  const nodeByAnnotationId = new Map<string, GraphNode>()
+  const nodeByEntity = new Map<string, GraphNode>()
+
+  for (const annotation of annotations) {
+    const entityKey = JSON.stringify([annotation.type, annotation.content])
+    const existing = options.mergeEntities ? nodeByEntity.get(entityKey) : undefined
+    if (existing) {
+      existing.annotationIds.push(annotation.id)
+      if (annotation.description && !existing.description.split('\n').includes(annotation.description)) {
+        existing.description = existing.description ? `${existing.description}\n${annotation.description}` : annotation.description
+      }
+      nodeByAnnotationId.set(annotation.id, existing)
+      continue
+    }
+    const node: GraphNode = {
+      id: annotation.id,
+      type: annotation.type,
+      content: annotation.content,
+      description: annotation.description,
+      lineId: annotation.lineId,
+      annotationIds: [annotation.id]
+    }
+    nodes.push(node)
+    nodeByAnnotationId.set(annotation.id, node)
+    nodeByEntity.set(entityKey, node)
+  }
+
+  const edges: GraphEdge[] = []
+  for (const relationship of relationships) {
+    const source = nodeByAnnotationId.get(relationship.startId)
+    const target = nodeByAnnotationId.get(relationship.endId)
+    if (!source || !target) continue
+    edges.push({ id: relationship.id, source: source.id, target: target.id, type: relationship.type, description: relationship.description })
+  }
+
+  return { nodes, edges }
+}
+
+/**
+ * 生成 GraphML（节点的 label 为标注文本，Gephi 导入后直接显示）
+ */
+export function serializeGraphML(graph: { nodes: GraphNode[]; edges: GraphEdge[] }): string {
+  const data = (key: string, value: string | number) => `<data key="${key}">${escapeXml(String(value))}</data>`
+  const output = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+    '  <key id="content" for="node" attr.name="content" attr.type="string"/>',
+    '  <key id="description" for="node" attr.name="description" attr.type="string"/>',
+    '  <key id="lineId" for="node" attr.name="lineId" attr.type="int"/>',
+    '  <key id="annotationIds" for="node" attr.name="annotationIds" attr.type="string"/>',
+    '  <key id="edgeLabel" for="edge" attr.name="label" attr.type="string"/>',
+    '  <key id="edgeType" for="edge" attr.name="type" attr.type="string"/>',
+    '  <key id="edgeDescription" for="edge" attr.name="description" attr.type="string"/>',
+    '  <graph id="annotations" edgedefault="directed">'
+  ]
+  for (const node of graph.nodes) {
+    const fields = [
+      data('label', node.content),
+      data('type', node.type),
+      data('content', node.content),
+      data('description', node.description),
+      data('lineId', node.lineId),
+      data('annotationIds', node.annotationIds.join(','))
+    ]
+    output.push(`    <node id="${escapeXml(node.id)}">${fields.join('')}</node>`)
+  }
+  for (const edge of graph.edges) {
+    const fields = [data('edgeLabel', edge.type), data('edgeType', edge.type), data('edgeDescription', edge.description)]
+    output.push(`    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">${fields.join('')}</edge>`)
+  }
+  output.push('  </graph>', '</graphml>')
+  return `${output.join('\n')}\n`
+}
+
+/**
+ * 生成 Graphviz DOT（节点显示标注文本，边显示关系类型）
+ */
+export function serializeDot(graph: { nodes: GraphNode[]; edges: GraphEdge[] }): string {
+  const output = ['digraph annotations {']
+  for (const node of graph.nodes) {
+    const attributes = [
+      `label=${quoteDot(node.content)}`,
+      `type=${quoteDot(node.type)}`,
+      `content=${quoteDot(node.content)}`,
+      `description=${quoteDot(node.description)}`,
+      `lineId=${node.lineId}`,
+      `annotationIds=${quoteDot(node.annotationIds.join(','))}`
+    ]
+    output.push(`  ${quoteDot(node.id)} [${attributes.join(', ')}];`)
+  }
+  for (const edge of graph.edges) {
+    const attributes = [
+      `id=${quoteDot(edge.id)}`,
+      `label=${quoteDot(edge.type)}`,
+      `type=${quoteDot(edge.type)}`,
+      `description=${quoteDot(edge.description)}`
+    ]
+    output.push(`  ${quoteDot(edge.source)} -> ${quoteDot(edge.target)} [${attributes.join(', ')}];`)
+  }
+  output.push('}')
+  return `${output.join('\n')}\n`
+}
+
+/**
+ * 生成 Neo4j Cypher CREATE 脚本（单条语句）
+ * 节点带有 Annotation 标签和以类型命名的标签，关系以关系类型命名（类型为空时为 RELATED_TO）
+ */
+export function serializeCypher(graph: { nodes: GraphNode[]; edges: GraphEdge[] }): string {
+  if (graph.nodes.length === 0) return ''
+  const variables = new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]))
+  const output: string[] = []
+  for (const node of graph.nodes) {
+    const labels = [':Annotation', node.type ? `:${quoteCypherName(node.type)}` : ''].join('')
+    const properties = [
+      `id: ${quoteCypher(node.id)}`,
+      `type: ${quoteCypher(node.type)}`,
+      `content: ${quoteCypher(node.content)}`,
+      `description: ${quoteCypher(node.description)}`,
+      `lineId: ${node.lineId}`,
+      `annotationIds: [${node.annotationIds.map(quoteCypher).join(', ')}]`
+    ]
+    output.push(`CREATE (${variables.get(node.id)}${labels} {${properties.join(', ')}})`)
+  }
+  for (const edge of graph.edges) {
+    const properties = [`id: ${quoteCypher(edge.id)}`, `type: ${quoteCypher(edge.type)}`, `description: ${quoteCypher(edge.description)}`]
+    const relationshipType = quoteCypherName(edge.type || 'RELATED_TO')
+    output.push(`CREATE (${variables.get(edge.source)})-[:${relationshipType} {${properties.join(', ')}}]->(${variables.get(edge.target)})`)
+  }
+  return `${output.join('\n')};\n`
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function quoteDot(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+}
+
+function quoteCypher(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`
+}
+
+// 标签名和关系类型名用反引号包裹，支持中文、空格等任意字符
+function quoteCypherName(name: string): string {
+  return `\`${name.replace(/`/g, '``')}\``
+}
@@ -0,0 +1,141 @@
+// Label Studio 任务 JSON（task.data + annotations[].result）的导入导出
+// 支持 labels（实体标注）和 relation（关系）两种结果类型，结果id 与标注id、关系id 一一对应
+import type { AnnotationItem, FormatIssue, LabelStudioOptions, LabelStudioResult, LabelStudioTask, RelationshipItem } from '../types'
+import { createOffsetConverter, getEndLineId, getTextInRange } from '../utils'
+
+/**
+ * 解析 Label Studio 任务
+ * 导入第一份标注结果（没有标注结果时导入第一份预标注结果），labels 结果导入为标注，relation 结果导入为关系
+ * 其余结果类型、多个标签（只保留第一个）、引用不存在区域的关系等记录在 issues 中
+ */
+export function parseLabelStudio(
+  task: LabelStudioTask,
+  options: LabelStudioOptions = {}
+): { content: string; annotations: AnnotationItem[]; relationships: RelationshipItem[]; issues: FormatIssue[] } {
+  const { dataKey = 'text', offsetUnit = 'utf16' } = options
+  const issues: FormatIssue[] = []
+  const content = task.data?.[dataKey]
+  if (typeof content !== 'string') {
+    return { content: '', annotations: [], relationships: [], issues: [{ message: `task.data.${dataKey} 不是文本` }] }
+  }
+
+  const converter = createOffsetConverter(content, offsetUnit)
+  const lines = content.split('\n').map(content => ({ content }))
+  const sources = task.annotations?.length ? task.annotations : task.predictions || []
+  if (sources.length > 1) {
+    issues.push({ message: `任务包含 ${sources.length} 份标注结果，只导入第一份` })
+  }
+  const results = sources[0]?.result || []
+
+  const annotations: AnnotationItem[] = []
+  const annotationIds = new Set<string>()
+  for (const result of results) {
+    if (result.type !== 'labels') continue
+    const value = result.value
+    if (!result.id || !value || !Number.isInteger(value.start) || !Number.isInteger(value.end) || value.end <= value.start) {
+      issues.push({ text: JSON.stringify(result), message: '无法解析的 labels 结果' })
+      continue
+    }
+    const [type = '', ...otherLabels] = value.labels || []
+    if (otherLabels.length > 0) {
+      issues.push({ text: value.text, message: `区域 ${result.id} 有多个标签，只保留第一个标签 ${type}` })
+    }
+    const range = converter.toLineRange(value.start, value.end)
+    const annotation: AnnotationItem = {
+      id: result.id,
+      ...range,
+      content: getTextInRange(lines, range.lineId, range.start, getEndLineId(range), range.end),
+      type,
+      description: (result.meta?.text || []).join('\n')
+    }
+    if (value.text !== undefined && value.text !== annotation.content) {
+      issues.push({ text: value.text, message: `区域 ${result.id} 的文本与原文不一致，已按偏移量导入` })
+    }
+    annotations.push(annotation)
+    annotationIds.add(result.id)
+  }
+
+  const relationships: RelationshipItem[] = []
+  for (const result of results) {
+    if (result.type === 'labels') continue
+    if (result.type !== 'relation') {
+      issues.push({ text: result.id, message: `不支持的结果类型 ${result.type}` })
+      continue
+    }
+    if (!result.from_id || !result.to_id || !annotationIds.has(result.from_id) || !annotationIds.has(result.to_id)) {
+      issues.push({ text: JSON.stringify(result), message: '关系连接的区域不存在' })
+      continue
+    }
+    const [type = '', ...otherLabels] = result.labels || []
+    if (otherLabels.length > 0) {
+      issues.push({ text: `${result.from_id} -> ${result.to_id}`, message: `关系有多个标签，只保留第一个标签 ${type}` })
+    }
+    if (result.direction === 'bi') {
+      issues.push({ text: `${result.from_id} -> ${result.to_id}`, message: '双向关系按 from_id 到 to_id 的方向导入' })
+    }
+    const [startId, endId] = result.direction === 'left' ? [result.to_id, result.from_id] : [result.from_id, result.to_id]
+    // Label Studio 的关系结果通常没有 id，按两端区域生成（导出时会写回 id）
+    relationships.push({ id: result.id || `${result.from_id}-${result.to_id}`, startId, endId, type, description: '' })
+  }
+
+  return { content, annotations, relationships, issues }
+}
+
+/**
+ * 生成 Label Studio 任务
+ * 传入 source（导入时的原任务）时保留任务id、其余任务数据、标注结果id 以及 from_name/to_name
+ * 非连续标注无法表示为一个区域，会被跳过并记录在 issues 中
+ */
+export function serializeLabelStudio(
+  content: string,
+  data: { annotations: AnnotationItem[]; relationships: RelationshipItem[] },
+  options: LabelStudioOptions = {},
+  source?: LabelStudioTask | null
+): { task: LabelStudioTask; issues: FormatIssue[] } {
+  const sourceAnnotation = source?.annotations?.[0]
+  const sourceRegion = [...(sourceAnnotation?.result || []), ...(source?.predictions?.[0]?.result || [])].find(result => result.type === 'labels')
+  const { dataKey = 'text', fromName = sourceRegion?.from_name || 'label', toName = sourceRegion?.to_name || 'text', offsetUnit = 'utf16' } = options
+  const converter = createOffsetConverter(content, offsetUnit)
+  const issues: FormatIssue[] = []
+  const result: LabelStudioResult[] = []
+  const exportedIds = new Set<string>()
+
+  for (const annotation of data.annotations) {
+    if (annotation.fragments && annotation.fragments.length > 1) {
+      issues.push({ text: annotation.content, message: `标注 ${annotation.id} 为非连续标注，Label Studio 无法表示，已跳过` })
+      continue
+    }
+    const { start, end } = converter.toGlobalRange(annotation)
+    result.push({
+      id: annotation.id,
+      type: 'labels',
+      from_name: fromName,
+      to_name: toName,
+      value: { start, end, text: annotation.content, labels: [annotation.type] },
+      ...(annotation.description ? { meta: { text: [annotation.description] } } : {})
+    })
+    exportedIds.add(annotation.id)
+  }
+
+  for (const relationship of data.relationships) {
+    if (!exportedIds.has(relationship.startId) || !exportedIds.has(relationship.endId)) {
+      issues.push({ text: relationship.id, message: `关系 ${relationship.id} 的端点没有导出，已跳过` })
+      continue
+    }
+    result.push({
+      id: relationship.id,
+      type: 'relation',
+      from_id: relationship.startId,
+      to_id: relationship.endId,
+      direction: 'right',
+      labels: relationship.type ? [relationship.type] : []
+    })
+  }
+
+  const task: LabelStudioTask = {
+    ...(source?.id !== undefined ? { id: source.id } : {}),
+    data: { ...source?.data, [dataKey]: content },
+    annotations: [{ ...(sourceAnnotation?.id !== undefined ? { id: sourceAnnotation.id } : {}), result }]
+  }
+  return { task, issues }
+}
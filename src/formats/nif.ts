@@ -0,0 +1,104 @@
+// 将标注导出为 NIF 2.0（NLP Interchange Format）RDF，使用 Turtle 语法
+// 规范：https://persistence.uni-leipzig.org/nlp2rdf/
+// 文档为 nif:Context（RFC 5147 形式的 IRI：文档IRI#char=0,长度），标注为 nif:String（基于偏移量的 IRI：文档IRI#offset_起点_终点_标注id），偏移量以 Unicode 码点计算
+// 标注 IRI 包含标注 id，范围相同、类型不同的标注导出为不同的资源
+import type { AnnotationItem, FormatIssue, NIFOptions, RelationshipItem } from '../types'
+import { createOffsetConverter, getAnnotationRanges } from '../utils'
+
+const DEFAULT_BASE_URI = 'urn:ys-text-annotation:document'
+const DEFAULT_TYPE_NAMESPACE = 'urn:ys-text-annotation:type:'
+const DEFAULT_PREDICATE_NAMESPACE = 'urn:ys-text-annotation:relation:'
+const DEFAULT_PREDICATE = 'RELATED_TO'
+
+const PREFIXES = [
+  '@prefix nif: <http://persistence.uni-leipzig.org/nlp2rdf/ontologies/nif-core#> .',
+  '@prefix itsrdf: <http://www.w3.org/2005/11/its/rdf#> .',
+  '@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .',
+  '@prefix xsd: <http://www.w3.org/2001/XMLSchema#> .'
+]
+
+/**
+ * 生成 NIF Turtle
+ * 标注类型通过 itsrdf:taClassRef 关联到 typeUris 中配置的类 URI，标注描述导出为 rdfs:comment
+ * 关系导出为“起点 谓词 终点”三元组，谓词为 predicateUris 中配置的 URI；关系描述无法在单个三元组中表示，不导出
+ * 非连续标注无法表示为一个 nif:String，会被跳过并记录在 issues 中
+ */
+export function serializeNIF(
+  content: string,
+  data: { annotations: AnnotationItem[]; relationships: RelationshipItem[] },
+  options: NIFOptions = {}
+): { turtle: string; issues: FormatIssue[] } {
+  const {
+    baseUri = DEFAULT_BASE_URI,
+    typeUris = {},
+    predicateUris = {},
+    typeNamespace = DEFAULT_TYPE_NAMESPACE,
+    predicateNamespace = DEFAULT_PREDICATE_NAMESPACE
+  } = options
+  const converter = createOffsetConverter(content, 'codepoint')
+  const length = Array.from(content).length
+  const contextUri = `${baseUri}#char=0,${length}`
+  const issues: FormatIssue[] = []
+
+  const blocks = [
+    [
+      `<${contextUri}>`,
+      '    a nif:Context , nif:String , nif:RFC5147String ;',
+      `    nif:isString ${quoteTurtle(content)} ;`,
+      `    nif:beginIndex ${quoteIndex(0)} ;`,
+      `    nif:endIndex ${quoteIndex(length)} .`
+    ].join('\n')
+  ]
+
+  const uriById = new Map<string, string>()
+  for (const annotation of data.annotations) {
+    if (getAnnotationRanges(annotation).length > 1) {
+      issues.push({ text: annotation.content, message: `标注 ${annotation.id} 为非连续标注，NIF 无法表示，已跳过` })
+      continue
+    }
+    const { start, end } = converter.toGlobalRange(annotation)
+    const uri = `${baseUri}#offset_${start}_${end}_${encodeURIComponent(annotation.id)}`
+    uriById.set(annotation.id, uri)
+    const lines = [
+      `<${uri}>`,
+      '    a nif:String , nif:OffsetBasedString ;',
+      `    nif:referenceContext <${contextUri}> ;`,
+      `    nif:anchorOf ${quoteTurtle(annotation.content)} ;`,
+      `    nif:beginIndex ${quoteIndex(start)} ;`,
+      `    nif:endIndex ${quoteIndex(end)} ;`
+    ]
+    if (annotation.type) {
+      lines.push(`    itsrdf:taClassRef <${typeUris[annotation.type] || typeNamespace + encodeURIComponent(annotation.type)}> ;`)
+    }
+    if (annotation.description) {
+      lines.push(`    rdfs:comment ${quoteTurtle(annotation.description)} ;`)
+    }
+    // 最后一个谓词以 . 结束
+    lines[lines.length - 1] = `${lines[lines.length - 1].slice(0, -2)} .`
+    blocks.push(lines.join('\n'))
+  }
+
+  const triples: string[] = []
+  for (const relationship of data.relationships) {
+    const subject = uriById.get(relationship.startId)
+    const object = uriById.get(relationship.endId)
+    if (!subject || !object) {
+      issues.push({ text: relationship.id, message: `关系 ${relationship.id} 的端点没有导出，已跳过` })
+      continue
+    }
+    const predicate = predicateUris[relationship.type] || predicateNamespace + encodeURIComponent(relationship.type || DEFAULT_PREDICATE)
+    triples.push(`<${subject}> <${predicate}> <${object}> .`)
+  }
+  if (triples.length > 0) blocks.push(triples.join('\n'))
+
+  return { turtle: `${PREFIXES.join('\n')}\n\n${blocks.join('\n\n')}\n`, issues }
+}
+
+function quoteIndex(index: number): string {
+  return `"${index}"^^xsd:nonNegativeInteger`
+}
+
+function quoteTurtle(text: string): string {
+  const escaped = text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\r/g, '\\r').replace(/\t/g, '\\t')
+  return `"${escaped}"`
+}
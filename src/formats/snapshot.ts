@@ -0,0 +1,75 @@
+// 标注视图快照：将离屏渲染的段落（foreignObject）和关系曲线组合为独立的 SVG，可进一步通过 canvas 转换为 PNG
+import type { RelationshipPath } from '../types'
+
+/**
+ * 生成快照 SVG
+ * @param body 段落部分的 XHTML（XMLSerializer 序列化结果）
+ * @param css 段落部分使用的样式（组件样式，:host 已替换为 .snapshot-root）
+ * @param paths 关系曲线（坐标相对于段落部分左上角）
+ */
+export function serializeSnapshotSVG(options: {
+  width: number
+  height: number
+  background: string
+  fontFamily: string
+  css: string
+  body: string
+  paths: RelationshipPath[]
+}): string {
+  const { width, height, background, fontFamily, css, body, paths } = options
+  const markers = paths.map(
+    (path, index) =>
+      `<marker id="arrowhead-end-${index}" markerWidth="6" markerHeight="6" refX="3" refY="3" orient="auto">` +
+      `<circle cx="3" cy="3" r="2.5" fill="none" stroke="${escapeXml(path.color)}" stroke-width="1.5"/></marker>` +
+      `<marker id="arrowhead-start-${index}" markerWidth="10" markerHeight="10" refX="1" refY="3" orient="auto">` +
+      `<circle cx="3" cy="3" r="2.5" fill="${escapeXml(path.color)}"/></marker>`
+  )
+  const curves = paths.map((path, index) => {
+    const curve = `<path d="${path.d}" fill="none" stroke="${escapeXml(path.color)}" stroke-width="2" marker-start="url(#arrowhead-start-${index})" marker-end="url(#arrowhead-end-${index})"/>`
+    if (!path.label || path.labelX === undefined || path.labelY === undefined || path.labelAngle === undefined) return curve
+    const label =
+      `<text x="${path.labelX}" y="${path.labelY}" fill="${escapeXml(path.color)}" transform="rotate(${path.labelAngle} ${path.labelX} ${path.labelY})" ` +
+      `font-size="12" font-weight="500" dominant-baseline="middle" text-anchor="middle">${escapeXml(path.label)}</text>`
+    return curve + label
+  })
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${escapeXml(fontFamily)}">`,
+    `<rect width="100%" height="100%" fill="${escapeXml(background)}"/>`,
+    `<foreignObject x="0" y="0" width="${width}" height="${height}">`,
+    `<div xmlns="http://www.w3.org/1999/xhtml" class="snapshot-root" style="width: ${width}px; font-family: ${escapeXml(fontFamily)}">`,
+    `<style>${escapeXml(css)}</style>`,
+    body,
+    '</div>',
+    '</foreignObject>',
+    `<defs>${markers.join('')}</defs>`,
+    `<g class="relationships">${curves.join('')}</g>`,
+    '</svg>'
+  ].join('\n')
+}
+
+/**
+ * 通过 canvas 将 SVG 栅格化为 PNG
+ * @param scale 像素倍率（如 2 表示生成两倍尺寸的高清图片）
+ */
+export async function rasterizeSVG(svgText: string, width: number, height: number, scale: number): Promise<Blob> {
+  const image = new Image()
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgText)}`
+  await image.decode()
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.ceil(width * scale)
+  canvas.height = Math.ceil(height * scale)
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('无法创建 canvas 绘图上下文')
+  context.scale(scale, scale)
+  context.drawImage(image, 0, 0, width, height)
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('canvas 转换为 PNG 失败'))), 'image/png')
+  })
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
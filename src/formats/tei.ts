@@ -0,0 +1,258 @@
+// TEI P5 XML 的导入导出（内联标记子集）
+// 每个段落为一个 <p>，标注为段落内的 <rs type="..."> 或按类型映射的元素（如 <persName>），关系为 <standOff> 中的 <listRelation>
+// <p> 中的空白按 XML 的默认处理折叠为一个空格（<lb/> 视为空格），需要原样保留空白的段落以 xml:space="preserve" 标记
+import type { AnnotationItem, FormatIssue, LineItem, RelationshipItem, TEIOptions } from '../types'
+import { getAnnotationRanges, getEndLineId } from '../utils'
+
+const TEI_NAMESPACE = 'http://www.tei-c.org/ns/1.0'
+const DEFAULT_TITLE = '标注文档'
+const ANNOTATION_ID_PREFIX = 'annotation-'
+const RELATIONSHIP_ID_PREFIX = 'relation-'
+// XML 中的空白字符（不含全角空格等其他 Unicode 空白）
+const XML_WHITESPACE = /[ \t\r\n]+/g
+
+/**
+ * 生成 TEI 文档
+ * 标注按 elementMap 输出为对应的元素（未配置的类型输出为 <rs type="类型">），以 xml:id 标识，嵌套的标注输出为嵌套的元素
+ * 跨行、非连续以及与其他标注交叉重叠的标注无法内联表示，会被跳过并记录在 issues 中；标注的描述不导出
+ * 含有连续空白、首尾空白或制表符等的段落输出为 <p xml:space="preserve">，导入时原样保留
+ */
+export function serializeTEI(
+  lines: LineItem[],
+  data: { annotations: AnnotationItem[]; relationships: RelationshipItem[] },
+  options: TEIOptions = {}
+): { xml: string; issues: FormatIssue[] } {
+  const { title = DEFAULT_TITLE, elementMap = {} } = options
+  const issues: FormatIssue[] = []
+
+  // 多个类型映射到同一元素时，需要通过 type 属性区分
+  const elementCounts = new Map<string, number>()
+  Object.values(elementMap).forEach(element => elementCounts.set(element, (elementCounts.get(element) || 0) + 1))
+
+  const byLine = new Map<number, AnnotationItem[]>()
+  for (const annotation of data.annotations) {
+    if (getAnnotationRanges(annotation).length > 1) {
+      issues.push({ text: annotation.content, message: `标注 ${annotation.id} 为非连续标注，无法内联表示，已跳过` })
+      continue
+    }
+    if (getEndLineId(annotation) !== annotation.lineId) {
+      issues.push({ text: annotation.content, message: `标注 ${annotation.id} 跨越多个段落，无法内联表示，已跳过` })
+      continue
+    }
+    if (annotation.end <= annotation.start) continue
+    if (!byLine.has(annotation.lineId)) byLine.set(annotation.lineId, [])
+    byLine.get(annotation.lineId)!.push(annotation)
+  }
+
+  const exportedIds = new Set<string>()
+  const paragraphs = lines.map(line => {
+    // 起点靠前、范围较长的在外层
+    const annotations = (byLine.get(line.id) || []).sort((a, b) => a.start - b.start || b.end - a.end)
+    const stack: AnnotationItem[] = []
+    let xml = ''
+    let position = 0
+    const closeUntil = (offset: number) => {
+      while (stack.length > 0 && stack[stack.length - 1].end <= offset) {
+        const annotation = stack.pop()!
+        xml += escapeXml(line.content.substring(position, annotation.end)) + `</${getElementName(annotation.type, elementMap)}>`
+        position = annotation.end
+      }
+    }
+    for (const annotation of annotations) {
+      closeUntil(annotation.start)
+      const parent = stack[stack.length - 1]
+      if (parent && annotation.end > parent.end) {
+        issues.push({ text: annotation.content, message: `标注 ${annotation.id} 与标注 ${parent.id} 交叉重叠，无法内联表示，已跳过` })
+        continue
+      }
+      const element = getElementName(annotation.type, elementMap)
+      const typeAttribute = element === 'rs' || (elementCounts.get(element) || 0) > 1 ? ` type="${escapeXml(annotation.type)}"` : ''
+      xml += escapeXml(line.content.substring(position, annotation.start))
+      xml += `<${element} xml:id="${escapeXml(ANNOTATION_ID_PREFIX + annotation.id)}"${typeAttribute}>`
+      position = annotation.start
+      stack.push(annotation)
+      exportedIds.add(annotation.id)
+    }
+    closeUntil(Infinity)
+    xml += escapeXml(line.content.substring(position))
+    const preserve = line.content.replace(XML_WHITESPACE, ' ').trim() !== line.content
+    return preserve ? `      <p xml:space="preserve">${xml}</p>` : `      <p>${xml}</p>`
+  })
+
+  const relations = data.relationships.flatMap(relationship => {
+    if (!exportedIds.has(relationship.startId) || !exportedIds.has(relationship.endId)) {
+      issues.push({ text: relationship.id, message: `关系 ${relationship.id} 的端点没有导出，已跳过` })
+      return []
+    }
+    const attributes = [
+      `xml:id="${escapeXml(RELATIONSHIP_ID_PREFIX + relationship.id)}"`,
+      `name="${escapeXml(relationship.type)}"`,
+      `active="#${escapeXml(ANNOTATION_ID_PREFIX + relationship.startId)}"`,
+      `passive="#${escapeXml(ANNOTATION_ID_PREFIX + relationship.endId)}"`
+    ].join(' ')
+    return relationship.description
+      ? [`      <relation ${attributes}><desc>${escapeXml(relationship.description)}</desc></relation>`]
+      : [`      <relation ${attributes}/>`]
+  })
+
+  const output = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<TEI xmlns="${TEI_NAMESPACE}">`,
+    '  <teiHeader>',
+    '    <fileDesc>',
+    `      <titleStmt><title>${escapeXml(title)}</title></titleStmt>`,
+    '      <publicationStmt><p>由 ys-text-annotation 导出</p></publicationStmt>',
+    '      <sourceDesc><p>标注文本</p></sourceDesc>',
+    '    </fileDesc>',
+    '  </teiHeader>',
+    '  <text>',
+    '    <body>',
+    ...paragraphs,
+    '    </body>',
+    '  </text>'
+  ]
+  if (relations.length > 0) {
+    output.push('  <standOff>', '    <listRelation>', ...relations, '    </listRelation>', '  </standOff>')
+  }
+  output.push('</TEI>')
+  return { xml: `${output.join('\n')}\n`, issues }
+}
+
+/**
+ * 解析 TEI 文档（serializeTEI 输出的子集）
+ * <body> 中的每个 <p> 为一个段落，<rs> 和 elementMap 中配置的元素导入为标注，<listRelation> 中的 <relation> 导入为关系
+ * 段落中的连续空白（含换行）折叠为一个空格并去掉首尾空白，<lb/> 视为空格，标注的范围随之调整；标记为 xml:space="preserve" 的段落保留原样
+ * 其余元素只保留其中的文本，并记录在 issues 中
+ */
+export function parseTEI(
+  xml: string,
+  options: TEIOptions = {}
+): { content: string; annotations: AnnotationItem[]; relationships: RelationshipItem[]; issues: FormatIssue[] } {
+  const { elementMap = {} } = options
+  const issues: FormatIssue[] = []
+  const teiDocument = new DOMParser().parseFromString(xml, 'application/xml')
+  if (teiDocument.querySelector('parsererror')) {
+    return { content: '', annotations: [], relationships: [], issues: [{ message: '无法解析的 XML 文档' }] }
+  }
+
+  // 元素名 → 映射到该元素的类型
+  const typesByElement = new Map<string, string[]>()
+  Object.entries(elementMap).forEach(([type, element]) => typesByElement.set(element, [...(typesByElement.get(element) || []), type]))
+  const getType = (element: Element): string | null => {
+    const typeAttribute = element.getAttribute('type')
+    if (element.localName === 'rs') return typeAttribute || ''
+    const types = typesByElement.get(element.localName)
+    if (!types) return null
+    return types.length > 1 && typeAttribute && types.includes(typeAttribute) ? typeAttribute : types[0]
+  }
+
+  const paragraphs = Array.from(teiDocument.querySelectorAll('body p')).filter(paragraph => !paragraph.parentElement?.closest('p'))
+  const lines: string[] = []
+  const annotations: AnnotationItem[] = []
+  const ignoredElements = new Set<string>()
+  const idMap = new Map<string, string>()
+
+  paragraphs.forEach((paragraph, lineId) => {
+    const preserve = isSpacePreserved(paragraph)
+    let text = ''
+    // 追加文本，不保留空白时折叠连续空白，并去掉段落开头的空白
+    const append = (value: string) => {
+      if (preserve) {
+        text += value
+        return
+      }
+      const collapsed = value.replace(XML_WHITESPACE, ' ')
+      text += collapsed.startsWith(' ') && (text === '' || text.endsWith(' ')) ? collapsed.slice(1) : collapsed
+    }
+    const walk = (node: Node) => {
+      for (const child of Array.from(node.childNodes)) {
+        if (child.nodeType === Node.TEXT_NODE || child.nodeType === Node.CDATA_SECTION_NODE) {
+          append(child.nodeValue || '')
+          continue
+        }
+        if (child.nodeType !== Node.ELEMENT_NODE) continue
+        const element = child as Element
+        if (element.localName === 'lb') {
+          append(' ')
+          continue
+        }
+        const type = getType(element)
+        const start = text.length
+        walk(element)
+        if (type === null) {
+          ignoredElements.add(element.localName)
+          continue
+        }
+        // 折叠后的空格位于标注首尾时不计入标注
+        const trimmedStart = !preserve && text[start] === ' ' ? start + 1 : start
+        const trimmedEnd = !preserve && text.endsWith(' ') ? text.length - 1 : text.length
+        if (trimmedEnd <= trimmedStart) continue
+        const xmlId = element.getAttribute('xml:id')
+        const id = xmlId ? stripPrefix(xmlId, ANNOTATION_ID_PREFIX) : `T${annotations.length + 1}`
+        if (xmlId) idMap.set(xmlId, id)
+        annotations.push({
+          id,
+          lineId,
+          start: trimmedStart,
+          end: trimmedEnd,
+          content: text.substring(trimmedStart, trimmedEnd),
+          type,
+          description: ''
+        })
+      }
+    }
+    walk(paragraph)
+    // 标注不包含末尾的空格，直接去掉
+    lines.push(!preserve && text.endsWith(' ') ? text.slice(0, -1) : text)
+  })
+  ignoredElements.forEach(name => issues.push({ text: `<${name}>`, message: `不支持的元素 <${name}>，只保留了其中的文本` }))
+
+  const annotationIds = new Set(annotations.map(annotation => annotation.id))
+  const relationships: RelationshipItem[] = []
+  teiDocument.querySelectorAll('listRelation relation').forEach((relation, index) => {
+    // active/passive 为空格分隔的指针列表，取第一个
+    const pointer = (name: string) => {
+      const target = (relation.getAttribute(name) || '').trim().split(/\s+/)[0].replace(/^#/, '')
+      return idMap.get(target) ?? stripPrefix(target, ANNOTATION_ID_PREFIX)
+    }
+    const startId = pointer('active')
+    const endId = pointer('passive')
+    const xmlId = relation.getAttribute('xml:id')
+    if (!annotationIds.has(startId) || !annotationIds.has(endId)) {
+      issues.push({ text: xmlId || relation.outerHTML, message: '关系连接的标注不存在，已跳过' })
+      return
+    }
+    relationships.push({
+      id: xmlId ? stripPrefix(xmlId, RELATIONSHIP_ID_PREFIX) : `R${index + 1}`,
+      startId,
+      endId,
+      type: relation.getAttribute('name') || relation.getAttribute('type') || '',
+      description: relation.querySelector('desc')?.textContent || ''
+    })
+  })
+
+  return { content: lines.join('\n'), annotations, relationships, issues }
+}
+
+/**
+ * 段落是否保留空白：取自身或最近的祖先元素上的 xml:space 属性
+ */
+function isSpacePreserved(element: Element): boolean {
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const space = current.getAttribute('xml:space')
+    if (space) return space === 'preserve'
+  }
+  return false
+}
+
+function getElementName(type: string, elementMap: Record<string, string>): string {
+  return elementMap[type] || 'rs'
+}
+
+function stripPrefix(id: string, prefix: string): string {
+  return id.startsWith(prefix) ? id.slice(prefix.length) : id
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
@@ -0,0 +1,236 @@
+// W3C Web Annotation 数据模型（JSON-LD）的导入导出
+// 规范：https://www.w3.org/TR/annotation-model/
+// 标注导出为带 TextPositionSelector 和 TextQuoteSelector 的 Annotation，关系导出为 motivation 为 linking 的链接标注
+import type {
+  AnnotationFragment,
+  AnnotationItem,
+  FormatIssue,
+  RelationshipItem,
+  WebAnnotation,
+  WebAnnotationBody,
+  WebAnnotationOptions,
+  WebAnnotationSelector,
+  WebAnnotationTarget
+} from '../types'
+import { createOffsetConverter, getAnnotationRanges, getEndLineId, getTextInRange, mergeFragments } from '../utils'
+
+const WEB_ANNOTATION_CONTEXT = 'http://www.w3.org/ns/anno.jsonld'
+const DEFAULT_SOURCE = 'urn:ys-text-annotation:document'
+const DEFAULT_ID_PREFIX = 'urn:ys-text-annotation:'
+
+// TextQuoteSelector 的 prefix/suffix 长度（码点数）
+const QUOTE_CONTEXT_LENGTH = 32
+
+type TextPositionSelector = { type: 'TextPositionSelector'; start: number; end: number }
+type TextQuoteSelector = { type: 'TextQuoteSelector'; exact: string; prefix?: string; suffix?: string }
+
+/**
+ * 生成 W3C Web Annotation 列表
+ * 非连续标注的每个片段作为一个 target；事件和属性在该数据模型中没有对应的表示，不会导出
+ */
+export function serializeWebAnnotations(
+  content: string,
+  data: { annotations: AnnotationItem[]; relationships: RelationshipItem[] },
+  options: WebAnnotationOptions = {}
+): WebAnnotation[] {
+  const { source = DEFAULT_SOURCE, idPrefix = DEFAULT_ID_PREFIX } = options
+  const positions = createOffsetConverter(content, 'codepoint')
+  const indexes = createOffsetConverter(content, 'utf16')
+  const result: WebAnnotation[] = []
+
+  for (const annotation of data.annotations) {
+    const targets = getAnnotationRanges(annotation).map(range => {
+      const position = positions.toGlobalRange(range)
+      const index = indexes.toGlobalRange(range)
+      const selector: WebAnnotationSelector[] = [
+        { type: 'TextPositionSelector', start: position.start, end: position.end },
+        { type: 'TextQuoteSelector', exact: content.slice(index.start, index.end), ...getQuoteContext(content, index.start, index.end) }
+      ]
+      return { source, selector }
+    })
+    result.push({
+      '@context': WEB_ANNOTATION_CONTEXT,
+      id: `${idPrefix}${annotation.id}`,
+      type: 'Annotation',
+      motivation: 'tagging',
+      body: createBodies(annotation),
+      target: targets.length === 1 ? targets[0] : targets
+    })
+  }
+
+  for (const relationship of data.relationships) {
+    result.push({
+      '@context': WEB_ANNOTATION_CONTEXT,
+      id: `${idPrefix}${relationship.id}`,
+      type: 'Annotation',
+      motivation: 'linking',
+      body: [`${idPrefix}${relationship.endId}`, ...createBodies(relationship)],
+      target: `${idPrefix}${relationship.startId}`
+    })
+  }
+
+  return result
+}
+
+/**
+ * 解析 W3C Web Annotation（单个 Annotation、Annotation 列表、AnnotationPage 或 AnnotationCollection）
+ * 优先按 TextPositionSelector 定位，该位置的文本与 TextQuoteSelector 不一致时（文本已修改导致位置偏移），
+ * 在全文中查找 exact 文本，选择 prefix/suffix 最吻合、离原位置最近的一处重新定位
+ * 无法定位的标注、无法解析的链接标注记录在 issues 中
+ */
+export function parseWebAnnotations(
+  content: string,
+  input: unknown,
+  options: WebAnnotationOptions = {}
+): { annotations: AnnotationItem[]; relationships: RelationshipItem[]; issues: FormatIssue[] } {
+  const { idPrefix = DEFAULT_ID_PREFIX } = options
+  const positions = createOffsetConverter(content, 'codepoint')
+  const indexes = createOffsetConverter(content, 'utf16')
+  const lines = content.split('\n').map(content => ({ content }))
+  const lastLine = lines[lines.length - 1].content.length
+  const textLength = positions.toGlobalRange({ lineId: lines.length - 1, start: lastLine, end: lastLine }).end
+  const toId = (iri: string) => (iri.startsWith(idPrefix) ? iri.slice(idPrefix.length) : iri)
+  const issues: FormatIssue[] = []
+  const items = getAnnotationList(input)
+
+  const annotations: AnnotationItem[] = []
+  const links: WebAnnotation[] = []
+  for (const item of items) {
+    if (!item || typeof item.id !== 'string' || item.target === undefined) {
+      issues.push({ text: JSON.stringify(item), message: '无法解析的 Annotation' })
+      continue
+    }
+    if (toArray(item.motivation).includes('linking')) {
+      links.push(item)
+      continue
+    }
+
+    const fragments: AnnotationFragment[] = []
+    for (const target of toArray(item.target)) {
+      const selectors = typeof target === 'string' ? [] : toArray(target.selector)
+      const position = selectors.find(selector => selector.type === 'TextPositionSelector') as TextPositionSelector | undefined
+      const quote = selectors.find(selector => selector.type === 'TextQuoteSelector') as TextQuoteSelector | undefined
+      const expected =
+        position && position.start >= 0 && position.end <= textLength ? indexes.toGlobalRange(positions.toLineRange(position.start, position.end)) : null
+      const found = anchorQuote(content, quote, expected)
+      if (!found) {
+        issues.push({ text: quote?.exact ?? item.id, message: `标注 ${item.id} 在文本中找不到对应位置，已跳过` })
+        fragments.length = 0
+        break
+      }
+      const range = indexes.toLineRange(found.start, found.end)
+      fragments.push({ ...range, content: getTextInRange(lines, range.lineId, range.start, getEndLineId(range), range.end) })
+    }
+    if (fragments.length === 0) continue
+
+    const { type, description } = readBodies(item.body)
+    annotations.push({ id: toId(item.id), type, description, ...mergeFragments(fragments) })
+  }
+
+  const annotationIds = new Set(annotations.map(annotation => annotation.id))
+  const relationships: RelationshipItem[] = []
+  for (const link of links) {
+    const [target] = toArray(link.target)
+    const startId = toId(getIri(target) || '')
+    const endIri = toArray(link.body).map(getIri).find(Boolean)
+    const endId = toId(endIri || '')
+    if (!annotationIds.has(startId) || !annotationIds.has(endId)) {
+      issues.push({ text: link.id, message: `链接标注 ${link.id} 连接的标注不存在，已跳过` })
+      continue
+    }
+    relationships.push({ id: toId(link.id), startId, endId, ...readBodies(link.body) })
+  }
+
+  return { annotations, relationships, issues }
+}
+
+/**
+ * 在文本中定位引用的片段（UTF-16 下标）
+ * 没有 TextQuoteSelector 时直接使用期望位置；期望位置的文本与 exact 一致时使用期望位置，否则查找所有出现位置，
+ * 按 prefix/suffix 吻合的字符数评分，分数相同时选择离期望位置最近的一处
+ */
+function anchorQuote(content: string, quote: TextQuoteSelector | undefined, expected: { start: number; end: number } | null) {
+  if (!quote?.exact) return expected && expected.end > expected.start ? expected : null
+  if (expected && content.slice(expected.start, expected.end) === quote.exact) return expected
+
+  let best: { start: number; end: number; score: number; distance: number } | null = null
+  for (let start = content.indexOf(quote.exact); start >= 0; start = content.indexOf(quote.exact, start + 1)) {
+    const end = start + quote.exact.length
+    const score = countMatchingBefore(content, start, quote.prefix || '') + countMatchingAfter(content, end, quote.suffix || '')
+    const distance = expected ? Math.abs(start - expected.start) : 0
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { start, end, score, distance }
+    }
+  }
+  return best && { start: best.start, end: best.end }
+}
+
+/**
+ * TextQuoteSelector 的上下文：片段前后各取若干个码点
+ */
+function getQuoteContext(content: string, start: number, end: number): { prefix: string; suffix: string } {
+  const prefix = Array.from(content.slice(Math.max(0, start - QUOTE_CONTEXT_LENGTH * 2), start))
+  const suffix = Array.from(content.slice(end, end + QUOTE_CONTEXT_LENGTH * 2))
+  return { prefix: prefix.slice(-QUOTE_CONTEXT_LENGTH).join(''), suffix: suffix.slice(0, QUOTE_CONTEXT_LENGTH).join('') }
+}
+
+/**
+ * 文本中 position 之前与 prefix 末尾吻合的字符数
+ */
+function countMatchingBefore(content: string, position: number, prefix: string): number {
+  let length = 0
+  while (length < prefix.length && length < position && content[position - 1 - length] === prefix[prefix.length - 1 - length]) length++
+  return length
+}
+
+/**
+ * 文本中 position 之后与 suffix 开头吻合的字符数
+ */
+function countMatchingAfter(content: string, position: number, suffix: string): number {
+  let length = 0
+  while (length < suffix.length && content[position + length] === suffix[length]) length++
+  return length
+}
+
+/**
+ * 类型导出为 purpose 为 tagging 的 TextualBody，描述导出为 purpose 为 commenting 的 TextualBody
+ */
+function createBodies(item: { type: string; description: string }): WebAnnotationBody[] {
+  const bodies: WebAnnotationBody[] = [{ type: 'TextualBody', purpose: 'tagging', value: item.type }]
+  if (item.description) {
+    bodies.push({ type: 'TextualBody', purpose: 'commenting', value: item.description })
+  }
+  return bodies
+}
+
+/**
+ * 读取类型（tagging/classifying 的 TextualBody，缺省时取第一个没有 purpose 的 TextualBody）和描述（commenting/describing 的 TextualBody）
+ */
+function readBodies(body: WebAnnotation['body']): { type: string; description: string } {
+  const textual = toArray(body).filter((item): item is Exclude<WebAnnotationBody, string> => typeof item === 'object' && typeof item.value === 'string')
+  const tag = textual.find(item => item.purpose === 'tagging' || item.purpose === 'classifying') || textual.find(item => !item.purpose)
+  const comments = textual.filter(item => item.purpose === 'commenting' || item.purpose === 'describing')
+  return { type: tag?.value || '', description: comments.map(item => item.value).join('\n') }
+}
+
+/**
+ * 读取被链接资源的 IRI（字符串，或没有 value 的对象的 id/source）
+ */
+function getIri(item: WebAnnotationTarget | WebAnnotationBody | undefined): string | undefined {
+  if (typeof item === 'string') return item
+  if (!item || ('value' in item && item.value !== undefined)) return undefined
+  return item.id || item.source
+}
+
+function getAnnotationList(input: unknown): WebAnnotation[] {
+  if (Array.isArray(input)) return input
+  const container = input as { type?: string; items?: WebAnnotation[]; first?: { items?: WebAnnotation[] } } | null
+  if (container?.type === 'AnnotationPage') return container.items || []
+  if (container?.type === 'AnnotationCollection') return container.first?.items || []
+  return input ? [input as WebAnnotation] : []
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return []
+  return Array.isArray(value) ? value : [value]
+}
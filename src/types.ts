@@ -14,7 +14,11 @@ export const FunctionMode = {
   /** 创建关系模式 - 正在创建关系，需要选择目标标注 */
   CREATING_RELATIONSHIP: 'creating_relationship',
   /** 右键菜单模式 - 右键菜单已打开 */
-  CONTEXT_MENU_OPEN: 'context_menu_open'
+  CONTEXT_MENU_OPEN: 'context_menu_open',
+  /** 创建/编辑事件模式 - 事件面板已显示，点击标注添加论元 */
+  CREATING_EVENT: 'creating_event',
+  /** 修改文本模式 - 正在直接修改某一段落的文本（纠正错别字、OCR 错误等） */
+  EDITING_TEXT: 'editing_text'
 } as const
 
 export type FunctionModeType = (typeof FunctionMode)[keyof typeof FunctionMode]
@@ -40,16 +44,45 @@ export interface LineItem {
   content: string
 }
 
+// 属性值类型
+export type AttributeValue = string | number | boolean
+
+// 属性定义（标注/关系类型的结构化属性）
+export interface AttributeSchema {
+  name: string // 属性名（唯一标识）
+  label?: string // 显示名称（缺省使用 name）
+  type: 'enum' | 'boolean' | 'number' | 'string' // 属性类型
+  options?: string[] // 可选值（仅 enum 类型需要）
+  required?: boolean // 是否必填
+  default?: AttributeValue // 默认值
+}
+
 // 实体标注类型
 export interface AnnotationType {
   type: string // 类型（唯一标识）
-  color: string // 颜色
+  color?: string // 颜色（缺省时继承父类型的颜色）
+  parent?: string // 父类型（用于构建层级分类，如 Location > City > Capital）
+  attributes?: AttributeSchema[] // 该类型的属性定义
 }
 
 // 关系类型
 export interface RelationshipType {
   type: string // 类型（唯一标识）
   color: string // 颜色
+  attributes?: AttributeSchema[] // 该类型的属性定义
+}
+
+// 事件类型
+export interface EventType {
+  type: string // 类型（唯一标识）
+  color: string // 颜色
+  roles?: string[] // 可选的论元角色（如 buyer、target、price、date），缺省时角色可自由填写
+}
+
+// 分类标签类型（文档级、段落级分类，如主题、情感、是否含个人信息）
+export interface ClassificationType {
+  type: string // 类型（唯一标识）
+  color: string // 颜色
 }
 
 // 关系选择器函数类型
@@ -87,16 +120,54 @@ export type RelationshipValidator = (
   existingRelationships: RelationshipItem[]
 ) => { valid: boolean; message?: string }
 
+// 标注片段（非连续标注的组成部分）
+export interface AnnotationFragment {
+  lineId: number // 段落id（跨行片段时为起始段落）
+  start: number // 起始位置
+  end: number // 结束位置
+  endLineId?: number // 结束段落id（仅跨行片段需要）
+  content: string // 片段内容
+}
+
 // 实体标注
 export interface AnnotationItem {
   id: string // 唯一标识
-  lineId: number // 段落id
+  lineId: number // 段落id（跨行标注时为起始段落）
   start: number // 起始位置
-  end: number // 结束位置
-  content: string // 标注内容
+  end: number // 结束位置（跨行标注时为结束段落内的位置）
+  endLineId?: number // 结束段落id（仅跨行标注需要，缺省与 lineId 相同）
+  content: string // 标注内容（跨行标注以 \n 连接各段文本）
   type: string // 分类
   description: string // 描述
   color?: string // 颜色
+  fragments?: AnnotationFragment[] // 非连续标注的各个片段（按文本顺序排列，此时 lineId/start/end 为首尾片段构成的整体范围，content 为各片段以空格连接）
+  attributes?: Record<string, AttributeValue> // 属性值（按类型的属性定义填写）
+}
+
+// 偏移量模式：line 为段落id + 行内位置，global 为全文 [start, end) 偏移量
+export type OffsetMode = 'line' | 'global'
+
+// 偏移量单位：utf16 为 JavaScript 字符串下标，codepoint 为 Unicode 码点（与 Python 一致），grapheme 为用户感知的字符（字素簇）
+export type OffsetUnit = 'utf16' | 'codepoint' | 'grapheme'
+
+// 全局偏移量的标注片段
+export interface GlobalAnnotationFragment {
+  start: number // 全文起始偏移量
+  end: number // 全文结束偏移量（不含）
+  content: string // 片段内容
+}
+
+// 全局偏移量的标注（offsetMode 为 global 时 setData/getData 使用的格式，段落之间的 \n 计 1 个字符）
+export interface GlobalAnnotationItem extends Omit<AnnotationItem, 'lineId' | 'endLineId' | 'fragments'> {
+  fragments?: GlobalAnnotationFragment[] // 非连续标注的各个片段
+}
+
+// 行内位置表示的文本范围
+export interface LineRange {
+  lineId: number // 起始段落id
+  start: number // 起始段落内的位置
+  end: number // 结束段落内的位置
+  endLineId?: number // 结束段落id（仅跨行范围有）
 }
 
 // 关系
@@ -107,6 +178,46 @@ export interface RelationshipItem {
   type: string // 关系描述
   description: string // 关系描述
   color?: string // 颜色
+  attributes?: Record<string, AttributeValue> // 属性值（按类型的属性定义填写）
+}
+
+// 事件论元
+export interface EventArgument {
+  role: string // 角色
+  annotationId: string // 论元标注id
+}
+
+// 事件（多元关系）：由一个触发词标注和多个带角色的论元标注组成
+export interface EventItem {
+  id: string // 唯一标识
+  triggerId: string // 触发词标注id
+  type: string // 事件类型
+  arguments: EventArgument[] // 论元列表
+  description: string // 描述
+  color?: string // 颜色
+}
+
+// 段落分类标签
+export interface LineLabelItem {
+  lineId: number // 段落id
+  labels: string[] // 标签列表（对应 lineLabelType 中的 type）
+}
+
+// 事件路径（从触发词分别连向各个论元）
+export interface EventPath {
+  id: string
+  type: string
+  color: string
+  draft?: boolean // 是否为正在创建/编辑的事件
+  labelPos: { x: number; y: number } // 事件类型标签位置（触发词上方）
+  arms: Array<{
+    annotationId: string
+    role: string
+    d: string
+    labelX?: number
+    labelY?: number
+    labelAngle?: number
+  }>
 }
 
 // 关系路径
@@ -115,6 +226,7 @@ export interface RelationshipPath {
   d: string
   label: string
   color: string
+  tooltip?: string // 悬停提示（类型、描述及属性值）
   labelX?: number
   labelY?: number
   labelAngle?: number
@@ -127,24 +239,230 @@ export interface SelectedTextInfo {
   lineId: number
   start: number
   end: number
+  endLineId?: number // 跨行选择时的结束行号
   content: string
 }
 
 // 右键菜单目标
 export interface ContextMenuTarget {
-  type: 'annotation' | 'relationship'
+  type: 'annotation' | 'relationship' | 'event'
   id: string
 }
 
+// 导入导出时遇到的不支持或无法转换的内容
+export interface FormatIssue {
+  line?: number // 所在行号（从 1 开始）
+  text?: string // 原始内容
+  message: string // 说明
+}
+
+// 分词结果中的词元（段落内 [start, end) 位置，UTF-16 下标）
+export interface TokenSpan {
+  start: number
+  end: number
+}
+
+// 分词器：将段落文本切分为词元，可返回词元位置或词元文本（按顺序在段落中查找位置）
+export type Tokenizer = (text: string) => Array<TokenSpan | string>
+
+// 序列标注的标签方案：BIO（B-开始、I-内部、O-外部），BIOES（另有 E-结束、S-单个词元）
+export type TaggingScheme = 'BIO' | 'BIOES'
+
+// CoNLL 导出选项
+export interface ConllExportOptions {
+  scheme?: TaggingScheme // 标签方案（默认 BIO）
+  tokenizer?: Tokenizer // 分词器（默认按空白和标点切分，中日韩文字按字切分）
+  delimiter?: string // 词元与标签之间的分隔符（默认 \t）
+}
+
+// CoNLL 导入选项
+export interface ConllImportOptions {
+  joiner?: string // 还原文本时词元之间的连接符（缺省时以空格连接，中文、日文及全角标点前后不加空格）
+}
+
+// Label Studio 标注结果中的一项（labels 为实体标注，relation 为关系，其余类型不支持）
+export interface LabelStudioResult {
+  id?: string // 结果id（labels 结果对应标注id）
+  type: string // 结果类型
+  from_name?: string // 标注控件名称（labels 结果）
+  to_name?: string // 文本对象名称（labels 结果）
+  value?: {
+    start: number // 全文起始偏移量
+    end: number // 全文结束偏移量（不含）
+    text?: string // 标注文本
+    labels: string[] // 标签（第一个标签作为标注类型）
+  }
+  meta?: { text?: string[] } // 区域备注（对应标注描述）
+  from_id?: string // 关系起点（relation 结果）
+  to_id?: string // 关系终点（relation 结果）
+  direction?: 'right' | 'left' | 'bi' // 关系方向（relation 结果）
+  labels?: string[] // 关系标签（relation 结果）
+  [key: string]: unknown
+}
+
+// Label Studio 任务
+export interface LabelStudioTask {
+  id?: number | string // 任务id
+  data: Record<string, unknown> // 任务数据（文本位于 data[dataKey]）
+  annotations?: Array<{ id?: number | string; result: LabelStudioResult[]; [key: string]: unknown }> // 标注结果
+  predictions?: Array<{ id?: number | string; result: LabelStudioResult[]; [key: string]: unknown }> // 预标注结果（没有 annotations 时导入）
+  [key: string]: unknown
+}
+
+// Label Studio 导入导出选项
+export interface LabelStudioOptions {
+  dataKey?: string // 文本在 task.data 中的字段名（默认 text）
+  fromName?: string // 导出 labels 结果的 from_name（默认 label）
+  toName?: string // 导出 labels 结果的 to_name（默认 text）
+  offsetUnit?: OffsetUnit // value.start/end 的偏移量单位（默认 utf16，与 Label Studio 前端一致）
+}
+
+// doccano 实体
+export interface DoccanoEntity {
+  id: number | string // 实体id
+  label: string // 标签
+  start_offset: number // 全文起始偏移量
+  end_offset: number // 全文结束偏移量（不含）
+}
+
+// doccano 关系
+export interface DoccanoRelation {
+  id: number | string // 关系id
+  from_id: number | string // 起点实体id
+  to_id: number | string // 终点实体id
+  type: string // 关系类型
+}
+
+// doccano JSONL 中的一个文档（一行）
+export interface DoccanoDocument {
+  id?: number | string // 文档id
+  text: string // 文本
+  entities?: DoccanoEntity[] // 实体（序列标注 + 关系抽取格式）
+  relations?: DoccanoRelation[] // 关系
+  label?: Array<[number, number, string]> // 实体（仅序列标注格式，每项为 [start, end, label]）
+  [key: string]: unknown
+}
+
+// doccano 导入导出选项
+export interface DoccanoOptions {
+  offsetUnit?: OffsetUnit // start_offset/end_offset 的偏移量单位（默认 codepoint，与 doccano 一致）
+}
+
+// doccano 导出选项（不依赖之前的导入：指定当前文档的 id、其他字段，以及与其一起导出的其他文档）
+export interface DoccanoExportOptions extends DoccanoOptions {
+  id?: number | string // 当前文档的 id
+  metadata?: Record<string, unknown> // 当前文档的其他字段（如 meta、comments），原样写入导出的文档
+  documents?: DoccanoDocument[] // 一起导出的全部文档，当前文档替换其中第 index 个
+  index?: number // 当前文档在 documents 中的位置（默认追加到末尾）
+}
+
+// W3C Web Annotation 选择器（TextPositionSelector 的偏移量为全文 Unicode 码点偏移量）
+export type WebAnnotationSelector =
+  | { type: 'TextPositionSelector'; start: number; end: number }
+  | { type: 'TextQuoteSelector'; exact: string; prefix?: string; suffix?: string }
+  | { type: string; [key: string]: unknown }
+
+// W3C Web Annotation 目标（文本中的片段，或被链接的标注的 IRI）
+export type WebAnnotationTarget = string | { id?: string; type?: string; source?: string; selector?: WebAnnotationSelector | WebAnnotationSelector[] }
+
+// W3C Web Annotation 主体（TextualBody 的 purpose 为 tagging 时表示类型，为 commenting 时表示描述）
+export type WebAnnotationBody = string | { id?: string; type?: string; purpose?: string; value?: string; source?: string }
+
+// W3C Web Annotation
+export interface WebAnnotation {
+  '@context'?: string | unknown[]
+  id: string
+  type: 'Annotation'
+  motivation?: string | string[] // 标注为 tagging，关系（链接标注）为 linking
+  body?: WebAnnotationBody | WebAnnotationBody[]
+  target: WebAnnotationTarget | WebAnnotationTarget[]
+}
+
+// W3C Web Annotation 导入导出选项
+export interface WebAnnotationOptions {
+  source?: string // 文本的 IRI（导出时作为 target.source）
+  idPrefix?: string // 标注 IRI 的前缀，与标注id、关系id 拼接为 IRI（导入时去掉该前缀还原为 id）
+}
+
+// 图导出格式：GraphML（Gephi 等）、Graphviz DOT、Neo4j Cypher CREATE 脚本
+export type GraphExportFormat = 'graphml' | 'dot' | 'cypher'
+
+// 图导出选项
+export interface GraphExportOptions {
+  mergeEntities?: boolean // 是否将文本和类型都相同的标注合并为一个实体节点（默认 false）
+}
+
+// NIF（RDF Turtle）导出选项
+export interface NIFOptions {
+  baseUri?: string // 文档 IRI（默认 urn:ys-text-annotation:document），标注的 IRI 为 文档IRI#char=起点,终点
+  typeUris?: Record<string, string> // 标注类型 → 类 URI（itsrdf:taClassRef）
+  predicateUris?: Record<string, string> // 关系类型 → 谓词 URI
+  typeNamespace?: string // 未配置 URI 的标注类型使用的命名空间（默认 urn:ys-text-annotation:type:）
+  predicateNamespace?: string // 未配置 URI 的关系类型使用的命名空间（默认 urn:ys-text-annotation:relation:）
+}
+
+// 图节点（一个标注，合并实体时为文本和类型相同的一组标注）
+export interface GraphNode {
+  id: string // 节点id（合并时为第一个标注的id）
+  type: string // 标注类型
+  content: string // 标注文本
+  description: string // 描述（合并时为各标注不重复的描述，以换行连接）
+  lineId: number // 所在段落id（合并时为第一次出现的段落）
+  annotationIds: string[] // 节点包含的标注id
+}
+
+// 图的边（一个关系）
+export interface GraphEdge {
+  id: string
+  source: string // 起点节点id
+  target: string // 终点节点id
+  type: string // 关系类型
+  description: string // 描述
+}
+
+// 文档导出（HTML、Markdown）选项
+export interface DocumentExportOptions {
+  title?: string // 文档标题（默认“标注文档”）
+}
+
+// 快照（SVG、PNG）导出选项
+export interface SnapshotOptions {
+  startLineId?: number // 起始段落id（默认为当前可见的第一个段落）
+  endLineId?: number // 结束段落id（包含，默认为当前可见的最后一个段落）
+  width?: number // 快照宽度（默认与组件正文宽度相同）
+  background?: string // 背景色（默认白色）
+  scale?: number // PNG 的像素倍率（默认为 devicePixelRatio）
+}
+
+// TEI XML 导入导出选项
+export interface TEIOptions {
+  title?: string // 导出时的文档标题（默认“标注文档”）
+  elementMap?: Record<string, string> // 标注类型 → TEI 元素名（如 { 人物: 'persName' }），未配置的类型使用 <rs type="类型">
+}
+
 // ==================== 自定义事件类型 ====================
 
 /**
  * 数据变化事件详情
  */
 export interface DataChangeEventDetail {
-  type?: 'annotation-added' | 'annotation-updated' | 'annotation-deleted' | 'relationship-added' | 'relationship-updated' | 'relationship-deleted'
-  annotations: AnnotationItem[]
+  type?:
+    | 'annotation-added'
+    | 'annotation-updated'
+    | 'annotation-deleted'
+    | 'relationship-added'
+    | 'relationship-updated'
+    | 'relationship-deleted'
+    | 'event-added'
+    | 'event-updated'
+    | 'event-deleted'
+    | 'document-label-updated'
+    | 'line-label-updated'
+  annotations: AnnotationItem[] | GlobalAnnotationItem[] // offsetMode 为 global 时为全局偏移量格式
   relationships: RelationshipItem[]
+  events: EventItem[]
+  documentLabels: string[]
+  lineLabels: LineLabelItem[]
 }
 
 /**
@@ -177,6 +495,51 @@ export interface RelationshipDeleteEventDetail {
   relationship: RelationshipItem
 }
 
+/**
+ * 标注无法重新定位事件详情（setContent 开启 remap 时，标注文本在新内容中被完全删除）
+ */
+export interface AnnotationsUnanchoredEventDetail {
+  annotations: AnnotationItem[] | GlobalAnnotationItem[] // 无法重新定位、已被移除的标注（修改前的位置）
+  relationships: RelationshipItem[] // 随之移除的关系
+  events: EventItem[] // 随之移除的事件（以这些标注为触发词）
+}
+
+/**
+ * 文本修改项：修改前文本中的 [start, end) 被替换为 text
+ * 位置格式与 getData() 一致：offsetMode 为 line 时为段落内位置，为 global 时为全文偏移量，单位由 offsetUnit 决定
+ */
+export interface TextChange {
+  start: number
+  end: number
+  text: string
+}
+
+/**
+ * 文本修改事件详情（在组件内直接修改段落文本后派发）
+ */
+export interface TextEditEventDetail {
+  lineId: number // 被修改的段落id
+  oldText: string // 修改前的段落文本
+  newText: string // 修改后的段落文本（包含换行时会拆分为多个段落）
+  changes: TextChange[] // 具体修改，按文本顺序排列，位置基于修改前的文本
+  content: string // 修改后的全文
+}
+
+/**
+ * 文本内容变化事件详情（撤销/重做恢复了不同的文本内容后派发）
+ */
+export interface ContentChangeEventDetail {
+  content: string // 恢复后的全文
+  reason: 'undo' | 'redo' // 变化原因
+}
+
+/**
+ * 快速标注类型切换事件详情（通过工具栏或数字键切换快速标注的当前类型后派发）
+ */
+export interface QuickLabelChangeEventDetail {
+  type: string // 切换后的类型
+}
+
 /**
  * 错误事件详情
  */
@@ -1,5 +1,16 @@
 // 工具函数集合
-import type { AnnotationItem, AnnotationType } from './types'
+import type {
+  AnnotationItem,
+  AnnotationType,
+  AnnotationFragment,
+  AttributeSchema,
+  AttributeValue,
+  LineItem,
+  LineLabelItem,
+  GlobalAnnotationItem,
+  LineRange,
+  OffsetUnit
+} from './types'
 
 /**
  * 获取 Shadow DOM 内的选择
@@ -430,7 +441,7 @@ export interface ContextMenuPosition {
 }
 
 export function calculateContextMenuPosition(
-  e: MouseEvent,
+  e: Pick<MouseEvent, 'clientX' | 'clientY'>,
   mainContainer: HTMLElement,
   scrollContainer?: HTMLElement,
   menuWidth: number = 120,
@@ -597,28 +608,255 @@ export function measureLineHeight(container: HTMLElement): number {
 }
 
 /**
- * 根据lineId查找对应的标注数据
+ * 获取标注（或选中文本）的结束行号
+ * 跨行标注使用 endLineId，单行标注与 lineId 相同
  */
-export function getAnnotationsByLineId<T extends { lineId: number }>(annotations: T[], lineId: number): T[] {
-  return annotations.filter(annotation => annotation.lineId === lineId)
+export function getEndLineId(item: { lineId: number; endLineId?: number }): number {
+  return item.endLineId ?? item.lineId
 }
 
 /**
- * 检查选中的文本范围是否与已标注的内容重叠
+ * 比较两个文本位置（行号 + 行内偏移量）的先后
+ * @returns 负数表示 a 在 b 之前，0 表示相同，正数表示 a 在 b 之后
+ */
+export function comparePosition(aLineId: number, aOffset: number, bLineId: number, bOffset: number): number {
+  return aLineId !== bLineId ? aLineId - bLineId : aOffset - bOffset
+}
+
+/**
+ * 根据lineId查找对应的标注数据（包含跨越该行的跨行标注）
+ */
+export function getAnnotationsByLineId<T extends { lineId: number; endLineId?: number }>(annotations: T[], lineId: number): T[] {
+  return annotations.filter(annotation => annotation.lineId <= lineId && getEndLineId(annotation) >= lineId)
+}
+
+/**
+ * 判断两个范围是否重叠（位置按 行号 + 偏移量 比较）
+ * @param inclusive 是否把首尾相接视为重叠
  */
-export function hasOverlapWithAnnotations(lineId: number, start: number, end: number, annotations: AnnotationItem[]): boolean {
-  // 查找同一行的所有标注
-  const lineAnnotations = annotations.filter(ann => ann.lineId === lineId)
+export function rangesOverlap(
+  a: { lineId: number; start: number; end: number; endLineId?: number },
+  b: { lineId: number; start: number; end: number; endLineId?: number },
+  inclusive: boolean = false
+): boolean {
+  const startBeforeEnd = comparePosition(a.lineId, a.start, getEndLineId(b), b.end)
+  const endAfterStart = comparePosition(getEndLineId(a), a.end, b.lineId, b.start)
+  return inclusive ? startBeforeEnd <= 0 && endAfterStart >= 0 : startBeforeEnd < 0 && endAfterStart > 0
+}
 
+/**
+ * 获取标注实际覆盖的文本范围
+ * 非连续标注返回各个片段，普通标注返回自身
+ */
+export function getAnnotationRanges(annotation: AnnotationItem): Array<AnnotationItem | AnnotationFragment> {
+  return annotation.fragments && annotation.fragments.length > 0 ? annotation.fragments : [annotation]
+}
+
+/**
+ * 检查选中的文本范围是否与已标注的内容重叠
+ * 非连续标注只检查各个片段，片段之间的文本可以单独标注
+ * @param endLineId 选中文本的结束行号（跨行选择时使用，默认与 lineId 相同）
+ */
+export function hasOverlapWithAnnotations(lineId: number, start: number, end: number, annotations: AnnotationItem[], endLineId: number = lineId): boolean {
   // 检查是否与任何标注重叠
   // 两个范围 [a1, a2] 和 [b1, b2] 重叠的条件是：a1 <= b2 && a2 >= b1
-  for (const annotation of lineAnnotations) {
-    if (start <= annotation.end && end >= annotation.start) {
-      return true
+  const selection = { lineId, start, end, endLineId }
+  return annotations.some(annotation => getAnnotationRanges(annotation).some(range => rangesOverlap(selection, range, true)))
+}
+
+/**
+ * 将多个片段合并为一个标注范围
+ * 只有一个片段时返回普通范围；多个片段时按文本顺序排列，整体范围取首尾片段，content 以空格连接
+ */
+export function mergeFragments(fragments: AnnotationFragment[]): Pick<AnnotationItem, 'lineId' | 'start' | 'end' | 'endLineId' | 'content' | 'fragments'> {
+  const sorted = [...fragments].sort((a, b) => comparePosition(a.lineId, a.start, b.lineId, b.start))
+  const first = sorted[0]
+  const last = sorted[sorted.length - 1]
+
+  const result: Pick<AnnotationItem, 'lineId' | 'start' | 'end' | 'endLineId' | 'content' | 'fragments'> = {
+    lineId: first.lineId,
+    start: first.start,
+    end: sorted.length > 1 ? last.end : first.end,
+    content: sorted.map(fragment => fragment.content).join(' ')
+  }
+  const endLineId = getEndLineId(last)
+  if (endLineId !== first.lineId) {
+    result.endLineId = endLineId
+  }
+  if (sorted.length > 1) {
+    // 只保留片段字段（传入的可能是完整的标注对象）
+    result.fragments = sorted.map(({ lineId, start, end, endLineId, content }) =>
+      endLineId !== undefined && endLineId !== lineId ? { lineId, start, end, endLineId, content } : { lineId, start, end, content }
+    )
+  }
+  return result
+}
+
+/**
+ * 文本范围（单行或跨行）
+ */
+export interface TextRange {
+  lineId: number
+  start: number
+  end: number
+  endLineId?: number
+  content: string
+}
+
+/**
+ * 文本范围在某一行内的片段
+ */
+export interface LineSegment {
+  start: number
+  end: number
+  /** 该片段应有的文本内容（用于校验标注是否仍与原文匹配） */
+  content: string
+  /** 是否为范围的第一个片段 */
+  isFirst: boolean
+  /** 是否为范围的最后一个片段 */
+  isLast: boolean
+}
+
+/**
+ * 计算文本范围在指定行内的片段
+ * 单行范围直接返回自身，跨行范围按行拆分：首行从 start 到行尾，中间行为整行，末行从行首到 end
+ * @param range 文本范围
+ * @param lineId 行号
+ * @param lineLength 该行文本长度
+ * @returns 片段信息，如果范围不经过该行则返回 null
+ */
+export function getLineSegment(range: TextRange, lineId: number, lineLength: number): LineSegment | null {
+  const endLineId = getEndLineId(range)
+  if (lineId < range.lineId || lineId > endLineId) return null
+
+  const isFirst = lineId === range.lineId
+  const isLast = lineId === endLineId
+  // 跨行标注的 content 以 \n 连接各行文本，按行取出对应部分
+  const content = isFirst && isLast ? range.content : (range.content.split('\n')[lineId - range.lineId] ?? '')
+
+  return {
+    start: isFirst ? range.start : 0,
+    end: isLast ? range.end : lineLength,
+    content,
+    isFirst,
+    isLast
+  }
+}
+
+/**
+ * 计算经过指定行的标注（非连续标注的每个片段）在该行内的片段，按 start 位置排序
+ * @param part 片段序号（非连续标注的第几个片段）
+ */
+export function getLineAnnotationSegments(
+  annotations: AnnotationItem[],
+  line: LineItem
+): Array<{ annotation: AnnotationItem; part: number; segment: LineSegment }> {
+  return getAnnotationsByLineId(annotations, line.id)
+    .flatMap(annotation =>
+      getAnnotationRanges(annotation).map((range, part) => ({ annotation, part, segment: getLineSegment(range, line.id, line.content.length) }))
+    )
+    .filter((item): item is { annotation: AnnotationItem; part: number; segment: LineSegment } => !!item.segment)
+    .sort((a, b) => a.segment.start - b.segment.start)
+}
+
+/**
+ * 获取指定范围内的原始文本（跨行时以 \n 连接）
+ */
+export function getTextInRange(lines: Array<{ content: string }>, lineId: number, start: number, endLineId: number, end: number): string {
+  if (lineId === endLineId) {
+    return lines[lineId]?.content.substring(start, end) ?? ''
+  }
+  const parts: string[] = [lines[lineId]?.content.substring(start) ?? '']
+  for (let i = lineId + 1; i < endLineId; i++) {
+    parts.push(lines[i]?.content ?? '')
+  }
+  parts.push(lines[endLineId]?.content.substring(0, end) ?? '')
+  return parts.join('\n')
+}
+
+/**
+ * 去掉范围首尾的空白字符（换行视为空白，可跨行收缩）
+ * @returns 收缩后的范围，如果范围内全是空白则返回 null
+ */
+export function trimTextRange(
+  lines: Array<{ content: string }>,
+  range: { lineId: number; start: number; endLineId: number; end: number }
+): { lineId: number; start: number; endLineId: number; end: number } | null {
+  let { lineId, start, endLineId, end } = range
+  const isBlank = (char: string | undefined) => char === undefined || /\s/.test(char)
+
+  // 向后移动起点，跳过空白（到达行尾则进入下一行）
+  while (comparePosition(lineId, start, endLineId, end) < 0) {
+    const lineContent = lines[lineId]?.content ?? ''
+    if (start >= lineContent.length) {
+      lineId++
+      start = 0
+    } else if (isBlank(lineContent[start])) {
+      start++
+    } else {
+      break
     }
   }
 
-  return false
+  // 向前移动终点，跳过空白（到达行首则回到上一行行尾）
+  while (comparePosition(lineId, start, endLineId, end) < 0) {
+    const lineContent = lines[endLineId]?.content ?? ''
+    if (end <= 0) {
+      endLineId--
+      end = lines[endLineId]?.content.length ?? 0
+    } else if (isBlank(lineContent[end - 1])) {
+      end--
+    } else {
+      break
+    }
+  }
+
+  if (comparePosition(lineId, start, endLineId, end) >= 0) {
+    return null
+  }
+  return { lineId, start, endLineId, end }
+}
+
+/**
+ * 计算嵌套/重叠标注的显示层级
+ * 范围越小的标注层级越低（越靠内），与其重叠的标注依次向外分配更高的层级
+ * @param lineStarts 各段落在全文中的起始偏移量，用于比较跨行标注的范围大小
+ * @returns 标注ID到层级（从0开始）的映射
+ */
+export function assignAnnotationLevels(annotations: AnnotationItem[], lineStarts: number[]): Map<string, number> {
+  const levels = new Map<string, number>()
+  // 按全文范围长度升序排列（跨行标注的行内偏移量属于不同段落，不能直接相减）
+  const length = (annotation: AnnotationItem) =>
+    lineStarts[getEndLineId(annotation)] + annotation.end - (lineStarts[annotation.lineId] + annotation.start)
+  const sorted = [...annotations].sort((a, b) => length(a) - length(b))
+  const placed: AnnotationItem[] = []
+
+  for (const annotation of sorted) {
+    const usedLevels = new Set<number>()
+    const ranges = getAnnotationRanges(annotation)
+    for (const other of placed) {
+      // 仅相交（不含首尾相接）的标注需要错开层级
+      const otherRanges = getAnnotationRanges(other)
+      const overlaps = ranges.some(range => otherRanges.some(otherRange => rangesOverlap(range, otherRange)))
+      if (overlaps) {
+        usedLevels.add(levels.get(other.id)!)
+      }
+    }
+    let level = 0
+    while (usedLevels.has(level)) level++
+    levels.set(annotation.id, level)
+    placed.push(annotation)
+  }
+
+  return levels
+}
+
+/**
+ * 格式化标注所在的行号（从1开始），跨行标注显示为 起始行-结束行
+ */
+export function formatLineRange(item: { lineId: number; endLineId?: number }): string {
+  const endLineId = getEndLineId(item)
+  return endLineId !== item.lineId ? `${item.lineId + 1}-${endLineId + 1}` : `${item.lineId + 1}`
 }
 
 /**
@@ -637,14 +875,28 @@ export interface AnnotationKeyPoints {
   bottomCenter: { x: number; y: number }
 }
 
+/**
+ * 计算一组元素的外接矩形
+ * 嵌套/重叠模式下一个标注会被拆分为多个片段元素，需要合并后作为整体计算
+ */
+export function getElementsBoundingRect(elements: HTMLElement | HTMLElement[]): { left: number; top: number; width: number; height: number } {
+  const list = Array.isArray(elements) ? elements : [elements]
+  const rects = list.map(element => element.getBoundingClientRect())
+  const left = Math.min(...rects.map(rect => rect.left))
+  const top = Math.min(...rects.map(rect => rect.top))
+  const right = Math.max(...rects.map(rect => rect.right))
+  const bottom = Math.max(...rects.map(rect => rect.bottom))
+  return { left, top, width: right - left, height: bottom - top }
+}
+
 /**
  * 计算标注的关键点位置（相对于 virtualListLayer）
- * @param element 标注元素
+ * @param element 标注元素（或同一标注的多个片段元素）
  * @param virtualListLayer 虚拟列表层元素
  * @returns 包含5个关键点的对象
  */
-export function calculateAnnotationKeyPoints(element: HTMLElement, virtualListLayer: HTMLElement): AnnotationKeyPoints {
-  const elementRect = element.getBoundingClientRect()
+export function calculateAnnotationKeyPoints(element: HTMLElement | HTMLElement[], virtualListLayer: HTMLElement): AnnotationKeyPoints {
+  const elementRect = getElementsBoundingRect(element)
   const layerRect = virtualListLayer.getBoundingClientRect()
 
   // 计算元素相对于 layer 的位置
@@ -722,11 +974,12 @@ export function getElementCenterPosition(element: HTMLElement, virtualListLayer:
 }
 
 /**
- * 查找包含标注的元素
+ * 查找包含标注的元素（最近的带有 data-anno-id 的元素）
+ * 嵌套/重叠模式下，标签元素自身带有 data-anno-id，用于精确指向某一层标注
  */
 export function findAnnotationElement(element: Element | null): HTMLElement | null {
   if (!element) return null
-  if (element.classList.contains('line-highlight')) {
+  if (element.hasAttribute('data-anno-id')) {
     return element as HTMLElement
   }
   return findAnnotationElement(element.parentElement)
@@ -738,9 +991,9 @@ export function findAnnotationElement(element: Element | null): HTMLElement | nu
 export function getGroupTooltip(annotations: AnnotationItem[]): string {
   if (annotations.length === 1) {
     const ann = annotations[0]
-    return `行号: ${ann.lineId + 1}, 类型: ${ann.type}`
+    return `行号: ${formatLineRange(ann)}, 类型: ${ann.type}`
   }
-  const lineNumbers = annotations.map(ann => ann.lineId + 1).sort((a, b) => a - b)
+  const lineNumbers = [...annotations].sort((a, b) => a.lineId - b.lineId).map(ann => formatLineRange(ann))
   const types = [...new Set(annotations.map(ann => ann.type))].join(', ')
   return `共 ${annotations.length} 个标注\n行号: ${lineNumbers.join(', ')}\n类型: ${types}`
 }
@@ -774,8 +1027,8 @@ export interface AnnotationConnectionResult {
 }
 
 export function calculateAnnotationToAnnotationConnection(
-  startElement: HTMLElement,
-  endElement: HTMLElement,
+  startElement: HTMLElement | HTMLElement[],
+  endElement: HTMLElement | HTMLElement[],
   virtualListLayer: HTMLElement
 ): AnnotationConnectionResult {
   // 使用关键点计算函数获取起点和终点的关键点
@@ -946,7 +1199,7 @@ export function updateGroupedAnnotations(lines: Array<{ id: number }>, annotatio
 
   // 将每个标注分配到对应的段
   for (const annotation of annotations) {
-    // 计算标注属于哪个段（0-99）
+    // 计算标注属于哪个段（0-99），跨行标注按起始行分配
     // 使用 Math.min 确保最后一行也能正确映射到最后一个段
     const segmentIndex = Math.min(Math.floor((annotation.lineId / lines.length) * SEGMENT_COUNT), SEGMENT_COUNT - 1)
 
@@ -978,8 +1231,7 @@ export function getGroupColor(annotations: AnnotationItem[], annotationTypes: An
     if (firstAnnotation.color) {
       return firstAnnotation.color
     }
-    const annotationType = annotationTypes.find(type => type.type === firstAnnotation.type)
-    return annotationType?.color || '#3271ae'
+    return resolveTypeColor(firstAnnotation.type, annotationTypes) || '#3271ae'
   }
   return '#3271ae'
 }
@@ -991,7 +1243,790 @@ export function getAnnotationColor(annotation: AnnotationItem, annotationTypes:
   if (annotation.color) {
     return annotation.color
   }
-  // 如果没有指定颜色，从标注类型中查找
-  const annotationType = annotationTypes.find(type => type.type === annotation.type)
-  return annotationType?.color || '#3271ae'
+  // 如果没有指定颜色，从标注类型（及其父类型）中查找
+  return resolveTypeColor(annotation.type, annotationTypes) || '#3271ae'
+}
+
+// ==================== 层级分类 ====================
+
+/**
+ * 层级分类树节点
+ */
+export interface AnnotationTypeNode {
+  type: AnnotationType
+  depth: number
+  children: AnnotationTypeNode[]
+}
+
+/**
+ * 获取类型的所有祖先类型（由近到远，不含自身）
+ * 父类型不存在或出现循环引用时停止
+ */
+export function getTypeAncestors(typeName: string, annotationTypes: AnnotationType[]): string[] {
+  const ancestors: string[] = []
+  const visited = new Set<string>([typeName])
+  let current = annotationTypes.find(type => type.type === typeName)
+  while (current?.parent && !visited.has(current.parent)) {
+    const parentName: string = current.parent
+    visited.add(parentName)
+    current = annotationTypes.find(type => type.type === parentName)
+    if (!current) break
+    ancestors.push(parentName)
+  }
+  return ancestors
+}
+
+/**
+ * 判断类型是否为指定类型本身或其子孙类型
+ */
+export function isTypeOrDescendant(typeName: string, ancestorName: string, annotationTypes: AnnotationType[]): boolean {
+  return typeName === ancestorName || getTypeAncestors(typeName, annotationTypes).includes(ancestorName)
+}
+
+/**
+ * 获取类型的颜色，未设置颜色时继承最近的设置了颜色的祖先类型
+ */
+export function resolveTypeColor(typeName: string, annotationTypes: AnnotationType[]): string | undefined {
+  for (const name of [typeName, ...getTypeAncestors(typeName, annotationTypes)]) {
+    const color = annotationTypes.find(type => type.type === name)?.color
+    if (color) return color
+  }
+  return undefined
+}
+
+/**
+ * 获取类型的完整路径，如 "Location > City > Capital"
+ */
+export function getTypePath(typeName: string, annotationTypes: AnnotationType[]): string {
+  return [...getTypeAncestors(typeName, annotationTypes).reverse(), typeName].join(' > ')
+}
+
+/**
+ * 构建层级分类树（父类型不存在的类型作为根节点，保持原有顺序）
+ */
+export function buildAnnotationTypeTree(annotationTypes: AnnotationType[]): AnnotationTypeNode[] {
+  const build = (type: AnnotationType, depth: number, visited: Set<string>): AnnotationTypeNode => ({
+    type,
+    depth,
+    children: annotationTypes
+      .filter(child => child.parent === type.type && !visited.has(child.type))
+      .map(child => build(child, depth + 1, new Set([...visited, child.type])))
+  })
+
+  // 父类型链中出现循环引用的类型也作为根节点，避免被遗漏
+  const isInCycle = (type: AnnotationType) => {
+    const ancestors = getTypeAncestors(type.type, annotationTypes)
+    const topParent = annotationTypes.find(item => item.type === (ancestors[ancestors.length - 1] ?? type.type))?.parent
+    return topParent === type.type
+  }
+
+  return annotationTypes
+    .filter(type => !type.parent || !annotationTypes.some(parent => parent.type === type.parent) || isInCycle(type))
+    .map(type => build(type, 0, new Set([type.type])))
+}
+
+/**
+ * 统计每个类型的标注数量
+ * @param rollup 是否将子类型的数量汇总到所有祖先类型
+ */
+export function countAnnotationsByType(annotations: AnnotationItem[], annotationTypes: AnnotationType[], rollup: boolean = false): Record<string, number> {
+  const counts: Record<string, number> = {}
+  for (const annotation of annotations) {
+    const typeNames = rollup ? [annotation.type, ...getTypeAncestors(annotation.type, annotationTypes)] : [annotation.type]
+    for (const name of typeNames) {
+      counts[name] = (counts[name] || 0) + 1
+    }
+  }
+  return counts
+}
+
+/**
+ * 获取属性的显示名称
+ */
+export function getAttributeLabel(schema: AttributeSchema): string {
+  return schema.label || schema.name
+}
+
+/**
+ * 根据属性定义生成默认属性值
+ * 未设置默认值的布尔属性默认为 false，其余属性不填
+ */
+export function getDefaultAttributes(schemas: AttributeSchema[]): Record<string, AttributeValue> {
+  const values: Record<string, AttributeValue> = {}
+  for (const schema of schemas) {
+    if (schema.default !== undefined) {
+      values[schema.name] = schema.default
+    } else if (schema.type === 'boolean') {
+      values[schema.name] = false
+    }
+  }
+  return values
+}
+
+/**
+ * 将表单输入转换为属性值
+ * @returns 转换后的属性值，输入为空时返回 undefined（表示未填写）
+ */
+export function parseAttributeInput(schema: AttributeSchema, input: string | boolean): AttributeValue | undefined {
+  if (schema.type === 'boolean') {
+    return input === true || input === 'true'
+  }
+  if (typeof input !== 'string' || input.trim() === '') {
+    return undefined
+  }
+  if (schema.type === 'number') {
+    return Number(input)
+  }
+  return schema.type === 'enum' ? input : input.trim()
+}
+
+/**
+ * 按属性定义整理属性值：只保留定义中的属性，去掉未填写的属性
+ */
+export function pickAttributes(schemas: AttributeSchema[], values: Record<string, AttributeValue>): Record<string, AttributeValue> {
+  const result: Record<string, AttributeValue> = {}
+  for (const schema of schemas) {
+    const value = values[schema.name]
+    if (value !== undefined && value !== '') {
+      result[schema.name] = value
+    }
+  }
+  return result
+}
+
+/**
+ * 按属性定义验证属性值
+ * @returns 第一个错误信息，验证通过时返回 null
+ */
+export function validateAttributes(schemas: AttributeSchema[], values: Record<string, AttributeValue>): string | null {
+  for (const schema of schemas) {
+    const value = values[schema.name]
+    const label = getAttributeLabel(schema)
+    if (value === undefined || value === '') {
+      if (schema.required) {
+        return `${label}为必填项`
+      }
+      continue
+    }
+    if (schema.type === 'number' && (typeof value !== 'number' || !Number.isFinite(value))) {
+      return `${label}必须是数字`
+    }
+    if (schema.type === 'boolean' && typeof value !== 'boolean') {
+      return `${label}必须是布尔值`
+    }
+    if (schema.type === 'enum' && !(schema.options || []).includes(String(value))) {
+      return `${label}的值不在可选范围内`
+    }
+  }
+  return null
+}
+
+/**
+ * 将属性值格式化为文本（用于悬停提示），如 "极性: positive, 强度: 3"
+ */
+export function formatAttributes(schemas: AttributeSchema[], values: Record<string, AttributeValue> | undefined): string {
+  if (!values) return ''
+  return Object.entries(values)
+    .map(([name, value]) => {
+      const schema = schemas.find(item => item.name === name)
+      const label = schema ? getAttributeLabel(schema) : name
+      const text = typeof value === 'boolean' ? (value ? '是' : '否') : String(value)
+      return `${label}: ${text}`
+    })
+    .join(', ')
+}
+
+// ==================== 分类标签 ====================
+
+/**
+ * 切换标签：已有则移除，没有则追加
+ */
+export function toggleLabel(labels: string[], label: string): string[] {
+  return labels.includes(label) ? labels.filter(item => item !== label) : [...labels, label]
+}
+
+/**
+ * 获取段落的分类标签
+ */
+export function getLineLabels(lineLabels: LineLabelItem[], lineId: number): string[] {
+  return lineLabels.find(item => item.lineId === lineId)?.labels || []
+}
+
+/**
+ * 设置段落的分类标签，返回新的段落标签列表（按段落id排序，标签为空时移除该段落）
+ */
+export function setLineLabels(lineLabels: LineLabelItem[], lineId: number, labels: string[]): LineLabelItem[] {
+  const rest = lineLabels.filter(item => item.lineId !== lineId)
+  if (labels.length === 0) return rest
+  return [...rest, { lineId, labels }].sort((a, b) => a.lineId - b.lineId)
+}
+
+// ==================== 全局偏移量 ====================
+
+/**
+ * 根据各段落长度计算每个段落在全文中的起始偏移量（段落之间以 \n 分隔，换行符计 1 个字符）
+ * 末尾额外附加一项（全文长度 + 1），使第 i 段的长度始终为 starts[i + 1] - starts[i] - 1
+ */
+export function getLineStartOffsets(lineLengths: number[]): number[] {
+  const starts = [0]
+  for (const length of lineLengths) {
+    starts.push(starts[starts.length - 1] + length + 1)
+  }
+  return starts
+}
+
+/**
+ * 全局偏移量转换为段落内位置（超出全文范围时截断到首尾）
+ * @param bias 偏移量恰好位于段落开头时的归属：start 归到该段开头（用于范围起点），end 归到上一段末尾（用于范围终点）
+ */
+export function globalOffsetToPosition(lineStarts: number[], offset: number, bias: 'start' | 'end' = 'start'): { lineId: number; offset: number } {
+  const lineCount = lineStarts.length - 1
+  const total = lineStarts[lineCount] - 1
+  const value = Math.max(0, Math.min(offset, total))
+
+  // 二分查找最后一个起始偏移量不大于 value 的段落
+  let low = 0
+  let high = lineCount - 1
+  while (low < high) {
+    const mid = (low + high + 1) >> 1
+    if (lineStarts[mid] <= value) {
+      low = mid
+    } else {
+      high = mid - 1
+    }
+  }
+
+  if (bias === 'end' && low > 0 && value === lineStarts[low]) {
+    return { lineId: low - 1, offset: lineStarts[low] - lineStarts[low - 1] - 1 }
+  }
+  return { lineId: low, offset: value - lineStarts[low] }
+}
+
+/**
+ * 段落内位置转换为全局偏移量
+ */
+export function positionToGlobalOffset(lineStarts: number[], lineId: number, offset: number): number {
+  const index = Math.max(0, Math.min(lineId, lineStarts.length - 2))
+  return lineStarts[index] + offset
+}
+
+/**
+ * 全局 [start, end) 范围转换为段落内范围，跨段落时带有 endLineId
+ */
+export function globalRangeToLineRange(lineStarts: number[], start: number, end: number): LineRange {
+  const from = globalOffsetToPosition(lineStarts, start, 'start')
+  const to = globalOffsetToPosition(lineStarts, Math.max(start, end), 'end')
+  // 空范围位于段落开头时，终点会被归到上一段，此时以起点为准
+  if (to.lineId < from.lineId) {
+    return { lineId: from.lineId, start: from.offset, end: from.offset }
+  }
+  const range: LineRange = { lineId: from.lineId, start: from.offset, end: to.offset }
+  if (to.lineId !== from.lineId) {
+    range.endLineId = to.lineId
+  }
+  return range
+}
+
+/**
+ * 段落内范围转换为全局 [start, end) 范围
+ */
+export function lineRangeToGlobalRange(lineStarts: number[], range: LineRange): { start: number; end: number } {
+  return {
+    start: positionToGlobalOffset(lineStarts, range.lineId, range.start),
+    end: positionToGlobalOffset(lineStarts, getEndLineId(range), range.end)
+  }
+}
+
+/**
+ * 将标注转换为全局偏移量格式（非连续标注的各片段同样转换）
+ */
+export function annotationToGlobal(annotation: AnnotationItem, lineStarts: number[]): GlobalAnnotationItem {
+  const { lineId, endLineId, fragments, ...rest } = annotation
+  const result: GlobalAnnotationItem = {
+    ...rest,
+    ...lineRangeToGlobalRange(lineStarts, { lineId, start: annotation.start, end: annotation.end, endLineId })
+  }
+  if (fragments && fragments.length > 0) {
+    result.fragments = fragments.map(fragment => ({ ...lineRangeToGlobalRange(lineStarts, fragment), content: fragment.content }))
+  }
+  return result
+}
+
+/**
+ * 将全局偏移量格式的标注转换为组件内部使用的段落内位置格式
+ */
+export function annotationFromGlobal(annotation: GlobalAnnotationItem, lineStarts: number[]): AnnotationItem {
+  const { fragments, ...rest } = annotation
+  const result: AnnotationItem = { ...rest, ...globalRangeToLineRange(lineStarts, annotation.start, annotation.end) }
+  if (fragments && fragments.length > 0) {
+    result.fragments = fragments.map(fragment => ({ ...globalRangeToLineRange(lineStarts, fragment.start, fragment.end), content: fragment.content }))
+  }
+  return result
+}
+
+// ==================== 偏移量单位 ====================
+
+let graphemeSegmenter: Intl.Segmenter | null | undefined
+
+/**
+ * 获取字素簇分割器（运行环境不支持 Intl.Segmenter 时返回 null）
+ */
+function getGraphemeSegmenter(): Intl.Segmenter | null {
+  if (graphemeSegmenter === undefined) {
+    graphemeSegmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl ? new Intl.Segmenter(undefined, { granularity: 'grapheme' }) : null
+  }
+  return graphemeSegmenter
+}
+
+/**
+ * 计算文本中各个字符单位的边界（UTF-16 下标，包含 0 和文本长度）
+ * utf16 单位与 JavaScript 字符串下标一致，无需转换，返回 null
+ * grapheme 单位在不支持 Intl.Segmenter 的环境中退化为 codepoint
+ */
+export function getOffsetBoundaries(text: string, unit: OffsetUnit): number[] | null {
+  if (unit === 'utf16') return null
+
+  const boundaries = [0]
+  const segmenter = unit === 'grapheme' ? getGraphemeSegmenter() : null
+  if (segmenter) {
+    for (const { index, segment } of segmenter.segment(text)) {
+      boundaries.push(index + segment.length)
+    }
+  } else {
+    for (const char of text) {
+      boundaries.push(boundaries[boundaries.length - 1] + char.length)
+    }
+  }
+  return boundaries
+}
+
+/**
+ * 获取文本按指定单位计算的长度
+ */
+export function getUnitLength(text: string, boundaries: number[] | null): number {
+  return boundaries ? boundaries.length - 1 : text.length
+}
+
+/**
+ * UTF-16 下标转换为指定单位的偏移量（落在字符单位内部时取该单位的起点）
+ */
+export function utf16ToUnitOffset(boundaries: number[] | null, offset: number): number {
+  if (!boundaries) return offset
+
+  let low = 0
+  let high = boundaries.length - 1
+  while (low < high) {
+    const mid = (low + high + 1) >> 1
+    if (boundaries[mid] <= offset) {
+      low = mid
+    } else {
+      high = mid - 1
+    }
+  }
+  return low
+}
+
+/**
+ * 指定单位的偏移量转换为 UTF-16 下标（超出范围时截断到首尾）
+ */
+export function unitToUtf16Offset(boundaries: number[] | null, offset: number): number {
+  if (!boundaries) return offset
+  return boundaries[Math.max(0, Math.min(offset, boundaries.length - 1))]
+}
+
+/**
+ * 将 UTF-16 下标对齐到字素簇边界，保证选区不会拆开代理对或字素簇（如组合表情、带变音符号的字符）
+ * @param direction backward 向前对齐（用于选区起点），forward 向后对齐（用于选区终点）
+ */
+export function snapToGraphemeBoundary(text: string, offset: number, direction: 'backward' | 'forward'): number {
+  const boundaries = getOffsetBoundaries(text, 'grapheme')!
+  const index = utf16ToUnitOffset(boundaries, offset)
+  if (boundaries[index] === offset || direction === 'backward') {
+    return boundaries[index]
+  }
+  return boundaries[Math.min(index + 1, boundaries.length - 1)]
+}
+
+let wordSegmenter: Intl.Segmenter | null | undefined
+
+/**
+ * 获取分词器（运行环境不支持 Intl.Segmenter 时返回 null）
+ */
+function getWordSegmenter(): Intl.Segmenter | null {
+  if (wordSegmenter === undefined) {
+    wordSegmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl ? new Intl.Segmenter(undefined, { granularity: 'word' }) : null
+  }
+  return wordSegmenter
+}
+
+/**
+ * 键盘移动光标：从 offset 向前/向后移动一个字素簇，或移动到上一个词的开头/下一个词的末尾
+ * 词按 Intl.Segmenter 分词（中文等也能按词移动），不支持时以连续的字母、数字为一个词；已在段落首尾时返回原位置
+ */
+export function moveTextOffset(text: string, offset: number, direction: 'backward' | 'forward', unit: 'character' | 'word'): number {
+  if (unit === 'character') {
+    const boundaries = getOffsetBoundaries(text, 'grapheme')!
+    const index = utf16ToUnitOffset(boundaries, offset)
+    if (direction === 'backward') {
+      return boundaries[boundaries[index] === offset ? Math.max(0, index - 1) : index]
+    }
+    return boundaries[Math.min(index + 1, boundaries.length - 1)]
+  }
+
+  const segmenter = getWordSegmenter()
+  const words = segmenter
+    ? Array.from(segmenter.segment(text))
+        .filter(segment => segment.isWordLike)
+        .map(({ index, segment }) => ({ start: index, end: index + segment.length }))
+    : Array.from(text.matchAll(/[\p{L}\p{N}_]+/gu), match => ({ start: match.index!, end: match.index! + match[0].length }))
+  if (direction === 'backward') {
+    const previous = words.reverse().find(word => word.start < offset)
+    return previous ? previous.start : 0
+  }
+  const next = words.find(word => word.end > offset)
+  return next ? next.end : text.length
+}
+
+/**
+ * 文本中的位置（段落id + 段落内 UTF-16 下标），用于键盘光标
+ */
+export interface TextPosition {
+  lineId: number
+  offset: number
+}
+
+/**
+ * 比较两个文本位置的先后（返回负数表示 a 在 b 之前）
+ */
+export function compareTextPositions(a: TextPosition, b: TextPosition): number {
+  return a.lineId - b.lineId || a.offset - b.offset
+}
+
+/**
+ * 按映射函数转换标注中的所有位置（起止位置及非连续标注的各个片段）
+ * @param mapOffset 接收段落id和该段落内的位置，返回转换后的位置
+ */
+export function mapAnnotationOffsets(annotation: AnnotationItem, mapOffset: (lineId: number, offset: number) => number): AnnotationItem {
+  const result: AnnotationItem = {
+    ...annotation,
+    start: mapOffset(annotation.lineId, annotation.start),
+    end: mapOffset(getEndLineId(annotation), annotation.end)
+  }
+  if (annotation.fragments && annotation.fragments.length > 0) {
+    result.fragments = annotation.fragments.map(fragment => ({
+      ...fragment,
+      start: mapOffset(fragment.lineId, fragment.start),
+      end: mapOffset(getEndLineId(fragment), fragment.end)
+    }))
+  }
+  return result
+}
+
+// ==================== 文本差异 ====================
+
+/**
+ * 文本修改：旧文本 [oldStart, oldEnd) 被替换为新文本 [newStart, newEnd)（均为全局 UTF-16 下标）
+ */
+export interface TextEdit {
+  oldStart: number
+  oldEnd: number
+  newStart: number
+  newEnd: number
+}
+
+/**
+ * Myers 差异算法，返回两个序列之间的修改块（下标范围）
+ * @param maxEdits 最大编辑距离，超出时放弃计算并返回 null（避免大段改写时耗费过多时间和内存）
+ */
+function myersDiff<T>(a: ArrayLike<T>, b: ArrayLike<T>, maxEdits: number): TextEdit[] | null {
+  const n = a.length
+  const m = b.length
+  const max = Math.min(n + m, maxEdits)
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  const trace: Int32Array[] = []
+
+  let found = -1
+  for (let d = 0; d <= max && found < 0; d++) {
+    trace.push(v.slice())
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        found = d
+        break
+      }
+    }
+  }
+  if (found < 0) return null
+
+  // 回溯得到所有相同元素的位置（倒序）
+  const matches: Array<[number, number]> = []
+  let x = n
+  let y = m
+  for (let d = found; d >= 0; d--) {
+    const prev = trace[d]
+    const k = x - y
+    const prevK = k === -d || (k !== d && prev[offset + k - 1] < prev[offset + k + 1]) ? k + 1 : k - 1
+    const prevX = d === 0 ? 0 : prev[offset + prevK]
+    const prevY = d === 0 ? 0 : prevX - prevK
+    const snakeStartX = d === 0 ? 0 : prevK === k + 1 ? prevX : prevX + 1
+    while (x > snakeStartX) {
+      x--
+      y--
+      matches.push([x, y])
+    }
+    x = prevX
+    y = prevY
+  }
+
+  // 相同元素之间的空隙即为修改块
+  const edits: TextEdit[] = []
+  let lastA = 0
+  let lastB = 0
+  for (let i = matches.length - 1; i >= -1; i--) {
+    const [matchA, matchB] = i >= 0 ? matches[i] : [n, m]
+    if (matchA > lastA || matchB > lastB) {
+      edits.push({ oldStart: lastA, oldEnd: matchA, newStart: lastB, newEnd: matchB })
+    }
+    lastA = matchA + 1
+    lastB = matchB + 1
+  }
+  return edits
+}
+
+/**
+ * 计算两段文本之间的修改（按文本顺序排列，互不相邻）
+ * 先去掉相同的首尾，再按行比较，最后在变化的行内逐字符比较，兼顾大文本的性能和修改定位的精度
+ */
+export function diffText(oldText: string, newText: string): TextEdit[] {
+  if (oldText === newText) return []
+
+  // 末尾各补一个换行，使最后一行与其他行一样以换行结尾，修改前后未变的最后一行仍能按行匹配
+  const oldLength = oldText.length
+  const edits: TextEdit[] = []
+  for (const edit of diffLines(oldText + '\n', newText + '\n')) {
+    let result = edit
+    if (edit.oldEnd > oldLength) {
+      // 涉及补充的换行：纯插入/删除整体前移一位（前一个字符同为换行），否则新旧两侧都去掉末尾的换行
+      const isShift = edit.oldStart === edit.oldEnd || edit.newStart === edit.newEnd
+      result = isShift
+        ? { oldStart: edit.oldStart - 1, oldEnd: edit.oldEnd - 1, newStart: edit.newStart - 1, newEnd: edit.newEnd - 1 }
+        : { ...edit, oldEnd: edit.oldEnd - 1, newEnd: edit.newEnd - 1 }
+    }
+    // 前移后可能与上一处修改相邻，合并为一处
+    const last = edits[edits.length - 1]
+    if (last && last.oldEnd === result.oldStart) {
+      last.oldEnd = result.oldEnd
+      last.newEnd = result.newEnd
+    } else {
+      edits.push(result)
+    }
+  }
+  return edits
+}
+
+/**
+ * 按行计算两段以换行结尾的文本之间的修改
+ */
+function diffLines(oldText: string, newText: string): TextEdit[] {
+  // 去掉相同的开头和结尾（结尾只去掉整行，保证剩余部分按行切分时各行都以换行结尾）
+  let prefix = 0
+  const minLength = Math.min(oldText.length, newText.length)
+  while (prefix < minLength && oldText[prefix] === newText[prefix]) {
+    prefix++
+  }
+  let suffix = 0
+  while (suffix < minLength - prefix && oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]) {
+    suffix++
+  }
+  while (suffix > 0 && (oldText[oldText.length - 1 - suffix] !== '\n' || newText[newText.length - 1 - suffix] !== '\n')) {
+    suffix--
+  }
+  const oldMiddle = oldText.slice(prefix, oldText.length - suffix)
+  const newMiddle = newText.slice(prefix, newText.length - suffix)
+
+  // 按行（保留换行符）比较，得到变化的行块
+  const oldLines = oldMiddle.split(/(?<=\n)/)
+  const newLines = newMiddle.split(/(?<=\n)/)
+  const lineEdits = myersDiff(oldLines, newLines, 2000) || [{ oldStart: 0, oldEnd: oldLines.length, newStart: 0, newEnd: newLines.length }]
+  const oldLineStarts = [0]
+  oldLines.forEach(line => oldLineStarts.push(oldLineStarts[oldLineStarts.length - 1] + line.length))
+  const newLineStarts = [0]
+  newLines.forEach(line => newLineStarts.push(newLineStarts[newLineStarts.length - 1] + line.length))
+
+  // 在变化的行块内逐字符比较
+  const edits: TextEdit[] = []
+  for (const block of lineEdits) {
+    const oldStart = oldLineStarts[block.oldStart]
+    const newStart = newLineStarts[block.newStart]
+    const oldBlock = oldMiddle.slice(oldStart, oldLineStarts[block.oldEnd])
+    const newBlock = newMiddle.slice(newStart, newLineStarts[block.newEnd])
+    const charEdits = myersDiff(oldBlock, newBlock, 2000) || [{ oldStart: 0, oldEnd: oldBlock.length, newStart: 0, newEnd: newBlock.length }]
+    for (const edit of charEdits) {
+      edits.push({
+        oldStart: prefix + oldStart + edit.oldStart,
+        oldEnd: prefix + oldStart + edit.oldEnd,
+        newStart: prefix + newStart + edit.newStart,
+        newEnd: prefix + newStart + edit.newEnd
+      })
+    }
+  }
+  return edits
+}
+
+/**
+ * 将旧文本中的位置映射到修改后的新文本
+ * 被替换的文本按范围的起点/终点分别处理：位于范围内部的修改保留在范围内，跨越范围边界的修改从范围中裁掉，
+ * 恰好在边界处插入的文本不计入范围
+ * @param bias start 表示该位置是范围起点，end 表示是范围终点
+ */
+export function mapOffsetThroughEdits(edits: TextEdit[], offset: number, bias: 'start' | 'end'): number {
+  let delta = 0
+  for (const edit of edits) {
+    if (offset < edit.oldStart) break
+    if (offset > edit.oldEnd) {
+      delta += edit.newEnd - edit.newStart - (edit.oldEnd - edit.oldStart)
+      continue
+    }
+    const isInsertion = edit.oldStart === edit.oldEnd
+    if (!isInsertion && offset === edit.oldStart) return edit.newStart
+    if (!isInsertion && offset === edit.oldEnd) return edit.newEnd
+    return bias === 'start' ? edit.newEnd : edit.newStart
+  }
+  return offset + delta
+}
+
+/**
+ * 按修改推算旧文本中某一范围在新文本中对应的文字：
+ * 范围内的修改替换为新文字，跨越范围边界的修改只去掉范围内的旧文字，恰好在边界处插入的文本不计入
+ */
+function applyEditsInRange(edits: TextEdit[], oldText: string, newText: string, start: number, end: number): string {
+  let result = ''
+  let offset = start
+  for (const edit of edits) {
+    // 跳过范围之外以及只与范围边界相接（含在边界处插入）的修改
+    if (edit.oldEnd <= start || edit.oldStart >= end) continue
+    result += oldText.slice(offset, Math.max(offset, edit.oldStart))
+    if (edit.oldStart >= start && edit.oldEnd <= end) {
+      result += newText.slice(edit.newStart, edit.newEnd)
+    }
+    offset = Math.max(offset, Math.min(edit.oldEnd, end))
+  }
+  return result + oldText.slice(offset, end)
+}
+
+/**
+ * 根据文本修改重新定位标注（位置均为段落内 UTF-16 下标）
+ * 非连续标注的片段分别定位，被完全删除的片段会被去掉；标注内容更新为新文本中对应的文字
+ * 新位置的文字须与原文字按范围内的修改推算的结果一致，否则视为无法定位（不把内容改写为新位置上的任意文字）
+ * @returns 重新定位后的标注，所有片段都被删除或无法对应时返回 null
+ */
+export function remapAnnotation(
+  annotation: AnnotationItem,
+  edits: TextEdit[],
+  oldText: string,
+  oldLineStarts: number[],
+  newText: string,
+  newLineStarts: number[]
+): AnnotationItem | null {
+  const fragments: AnnotationFragment[] = []
+  for (const range of getAnnotationRanges(annotation)) {
+    const { start, end } = lineRangeToGlobalRange(oldLineStarts, range)
+    const newStart = mapOffsetThroughEdits(edits, start, 'start')
+    const newEnd = mapOffsetThroughEdits(edits, end, 'end')
+    if (newStart >= newEnd) continue
+    const content = newText.slice(newStart, newEnd)
+    if (content !== applyEditsInRange(edits, oldText, newText, start, end)) return null
+    fragments.push({ ...globalRangeToLineRange(newLineStarts, newStart, newEnd), content })
+  }
+  if (fragments.length === 0) return null
+
+  const { endLineId: _endLineId, fragments: _fragments, ...rest } = annotation
+  return { ...rest, ...mergeFragments(fragments) }
+}
+
+/**
+ * 根据文本修改重新定位段落标签：标签跟随段落开头移动，整段被删除的段落标签会被去掉，合并到同一段落的标签取并集
+ */
+export function remapLineLabels(lineLabels: LineLabelItem[], edits: TextEdit[], oldLineStarts: number[], newLineStarts: number[]): LineLabelItem[] {
+  let result: LineLabelItem[] = []
+  for (const item of lineLabels) {
+    const lineStart = oldLineStarts[item.lineId]
+    const lineEnd = oldLineStarts[item.lineId + 1] - 1
+    if (lineStart === undefined || Number.isNaN(lineEnd)) continue
+
+    const newStart = mapOffsetThroughEdits(edits, lineStart, 'start')
+    if (lineEnd > lineStart && newStart >= mapOffsetThroughEdits(edits, lineEnd, 'end')) continue
+
+    const { lineId } = globalOffsetToPosition(newLineStarts, newStart)
+    const labels = getLineLabels(result, lineId)
+    result = setLineLabels(result, lineId, [...labels, ...item.labels.filter(label => !labels.includes(label))])
+  }
+  return result
+}
+
+// ==================== 导入导出 ====================
+
+/**
+ * 全文偏移量换算器：在指定单位的全文 [start, end) 偏移量与组件内部使用的段落内 UTF-16 范围之间转换
+ * 用于导入导出各种以全文偏移量表示位置的标注格式
+ */
+export interface OffsetConverter {
+  toLineRange(start: number, end: number): LineRange
+  toGlobalRange(range: LineRange): { start: number; end: number }
+}
+
+export function createOffsetConverter(text: string, unit: OffsetUnit): OffsetConverter {
+  const lineContents = text.split('\n')
+  const boundaries = lineContents.map(line => getOffsetBoundaries(line, unit))
+  const starts = getLineStartOffsets(lineContents.map((line, index) => getUnitLength(line, boundaries[index])))
+  const toUtf16 = (lineId: number, offset: number) => unitToUtf16Offset(boundaries[lineId] ?? null, offset)
+  const toUnit = (lineId: number, offset: number) => utf16ToUnitOffset(boundaries[lineId] ?? null, offset)
+
+  return {
+    toLineRange(start, end) {
+      const range = globalRangeToLineRange(starts, start, end)
+      return { ...range, start: toUtf16(range.lineId, range.start), end: toUtf16(getEndLineId(range), range.end) }
+    },
+    toGlobalRange(range) {
+      return lineRangeToGlobalRange(starts, { ...range, start: toUnit(range.lineId, range.start), end: toUnit(getEndLineId(range), range.end) })
+    }
+  }
+}
+
+/**
+ * 根据类型名称生成稳定的颜色（同名类型总是得到相同的颜色），用于导入数据中未配置的类型
+ */
+export function generateTypeColor(typeName: string): string {
+  let hash = 0
+  for (const char of typeName) {
+    hash = (hash * 31 + char.codePointAt(0)!) >>> 0
+  }
+  return `hsl(${hash % 360}, 60%, 45%)`
+}
+
+/**
+ * 为类型列表补充缺失的类型（使用生成的颜色），已有的类型保持不变
+ */
+export function appendMissingTypes<T extends { type: string; color?: string }>(
+  types: T[],
+  typeNames: string[]
+): Array<T | { type: string; color: string }> {
+  const existing = new Set(types.map(type => type.type))
+  const missing = [...new Set(typeNames)].filter(type => type && !existing.has(type))
+  return missing.length > 0 ? [...types, ...missing.map(type => ({ type, color: generateTypeColor(type) }))] : types
+}
+
+/**
+ * 判断事件目标是否为表单控件（输入框、文本域、下拉框或可编辑元素），快捷键在其中时应保留浏览器默认行为
+ */
+export function isFormControl(target: EventTarget | undefined): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
 }
@@ -1,4 +1,4 @@
-import { LitElement, css, html, svg, unsafeCSS } from 'lit'
+import { LitElement, css, html, nothing, render, svg, unsafeCSS } from 'lit'
 import { customElement, property, state, query } from 'lit/decorators.js'
 import { classMap } from 'lit/directives/class-map.js'
 import { styleMap } from 'lit/directives/style-map.js'
@@ -13,7 +13,6 @@ import {
   calculateEditLayerPositionFromPoint,
   measureLineHeight,
   getTextOffsetInLine,
-  getAnnotationsByLineId,
   calculateSBezierCurvePath,
   calculateAnnotationToAnnotationConnection,
   calculateAsidePosition,
@@ -27,7 +26,54 @@ import {
   getBottomPadding,
   updateGroupedAnnotations,
   getGroupColor,
-  getAnnotationColor
+  getAnnotationColor,
+  getEndLineId,
+  getLineSegment,
+  getLineAnnotationSegments,
+  getTextInRange,
+  trimTextRange,
+  formatLineRange,
+  assignAnnotationLevels,
+  getAnnotationRanges,
+  rangesOverlap,
+  mergeFragments,
+  getAttributeLabel,
+  getDefaultAttributes,
+  parseAttributeInput,
+  pickAttributes,
+  validateAttributes,
+  formatAttributes,
+  resolveTypeColor,
+  getTypeAncestors,
+  getTypePath,
+  isTypeOrDescendant,
+  buildAnnotationTypeTree,
+  countAnnotationsByType,
+  toggleLabel,
+  getLineLabels,
+  setLineLabels,
+  getLineStartOffsets,
+  globalRangeToLineRange,
+  lineRangeToGlobalRange,
+  annotationToGlobal,
+  annotationFromGlobal,
+  getOffsetBoundaries,
+  getUnitLength,
+  utf16ToUnitOffset,
+  unitToUtf16Offset,
+  snapToGraphemeBoundary,
+  mapAnnotationOffsets,
+  diffText,
+  remapAnnotation,
+  remapLineLabels,
+  type TextEdit,
+  appendMissingTypes,
+  isFormControl,
+  moveTextOffset,
+  compareTextPositions,
+  type TextPosition,
+  type AnnotationTypeNode,
+  type LineSegment
 } from './utils'
 import type {
   LineItem,
@@ -43,14 +89,77 @@ import type {
   AnnotationDeleteEventDetail,
   RelationshipEventDetail,
   RelationshipDeleteEventDetail,
+  AnnotationsUnanchoredEventDetail,
+  TextEditEventDetail,
+  ContentChangeEventDetail,
+  QuickLabelChangeEventDetail,
+  TextChange,
+  FormatIssue,
+  ConllExportOptions,
+  ConllImportOptions,
+  LabelStudioTask,
+  LabelStudioOptions,
+  DoccanoDocument,
+  DoccanoOptions,
+  DoccanoExportOptions,
+  WebAnnotation,
+  WebAnnotationOptions,
+  GraphExportFormat,
+  GraphExportOptions,
+  NIFOptions,
+  DocumentExportOptions,
+  SnapshotOptions,
+  TEIOptions,
   ErrorEventDetail,
   relationshipTypeResolver,
   RelationshipTypeFilter,
   AnnotationValidator,
   AnnotationConfirmValidator,
-  RelationshipValidator
+  RelationshipValidator,
+  AttributeSchema,
+  AttributeValue,
+  EventItem,
+  EventType,
+  EventArgument,
+  EventPath,
+  ClassificationType,
+  LineLabelItem,
+  OffsetMode,
+  OffsetUnit,
+  GlobalAnnotationItem,
+  LineRange
 } from './types'
 import { FunctionMode, LayerDisplayMode, type FunctionModeType, type LayerDisplayModeType } from './types'
+import { parseBrat, serializeBrat } from './formats/brat'
+import { parseConll, serializeConll } from './formats/conll'
+import { parseLabelStudio, serializeLabelStudio } from './formats/label-studio'
+import { parseJsonl, parseDoccano, serializeDoccano } from './formats/doccano'
+import { parseWebAnnotations, serializeWebAnnotations } from './formats/web-annotation'
+import { buildGraph, serializeCypher, serializeDot, serializeGraphML } from './formats/graph'
+import { serializeNIF } from './formats/nif'
+import { serializeHTML, serializeMarkdown } from './formats/document'
+import { rasterizeSVG, serializeSnapshotSVG } from './formats/snapshot'
+import { parseTEI, serializeTEI } from './formats/tei'
+
+// 行内高亮项类型（标注片段或正在编辑的选中文本片段）
+interface HighlightItem extends LineSegment {
+  type: 'annotation' | 'editing'
+  annotation?: AnnotationItem
+  part: number // 所属片段序号（非连续标注的第几个片段，普通标注为 0）
+}
+
+// 撤销/重做的数据快照（数据均为不可变数组，直接保存引用）
+interface HistorySnapshot {
+  content: string
+  annotations: AnnotationItem[]
+  relationships: RelationshipItem[]
+  events: EventItem[]
+  documentLabels: string[]
+  lineLabels: LineLabelItem[]
+}
+
+// 最多保留的撤销步数
+const MAX_HISTORY_SIZE = 100
 
 @customElement('ys-text-annotation')
 export class YsTextAnnotation extends LitElement {
@@ -80,6 +189,30 @@ export class YsTextAnnotation extends LitElement {
   @property({ type: Boolean })
   showLineNumber = true
 
+  // 是否允许嵌套/重叠标注（开启后重叠的标注按层级堆叠显示）
+  @property({ type: Boolean })
+  allowOverlap = false
+
+  // 是否允许直接修改段落文本（纠正错别字、OCR 错误等，需同时开启编辑模式）
+  @property({ type: Boolean })
+  textEditingEnabled = false
+
+  // 快速标注模式：选中文本后直接以当前类型创建标注，不显示编辑层（需同时开启编辑模式）
+  @property({ type: Boolean })
+  quickLabelEnabled = false
+
+  // 快速标注的当前类型（annotationType 中的类型名，为空时使用第一个类型），可通过工具栏或数字键切换
+  @property({ type: String })
+  quickLabelType = ''
+
+  // 偏移量模式：line 为段落id + 行内位置（默认），global 时 setData/getData/data-change 中的标注使用全文 [start, end) 偏移量
+  @property({ type: String })
+  offsetMode: OffsetMode = 'line'
+
+  // 偏移量单位：utf16（默认）、codepoint 或 grapheme，作用于 setData/getData/data-change 中标注的位置及偏移量转换方法
+  @property({ type: String })
+  offsetUnit: OffsetUnit = 'utf16'
+
   @state()
   private lines: LineItem[] = []
 
@@ -138,15 +271,43 @@ export class YsTextAnnotation extends LitElement {
   @property({ type: Array })
   annotationType: AnnotationType[] = []
 
+  // 类型过滤：只显示这些类型及其子类型的标注（空数组表示不过滤）
+  @property({ type: Array })
+  typeFilter: string[] = []
+
   @property({ type: Array })
   relationshipType: RelationshipType[] = []
 
+  // 事件类型
+  @property({ type: Array })
+  eventType: EventType[] = []
+
   @property({ type: Array })
   annotations: AnnotationItem[] = []
 
   @property({ type: Array })
   relationships: RelationshipItem[] = []
 
+  // 事件（多元关系）
+  @property({ type: Array })
+  events: EventItem[] = []
+
+  // 文档分类标签类型（配置后在正文上方显示文档标签区）
+  @property({ type: Array })
+  documentLabelType: ClassificationType[] = []
+
+  // 段落分类标签类型（配置后在行号旁显示段落标签栏）
+  @property({ type: Array })
+  lineLabelType: ClassificationType[] = []
+
+  // 文档分类标签
+  @property({ type: Array })
+  documentLabels: string[] = []
+
+  // 段落分类标签
+  @property({ type: Array })
+  lineLabels: LineLabelItem[] = []
+
   /**
    * 关系选择器函数
    * 当创建关系时，会调用此函数来决定使用哪个关系类型
@@ -188,6 +349,14 @@ export class YsTextAnnotation extends LitElement {
   @state()
   private relationshipPaths: RelationshipPath[] = []
 
+  // 事件路径（包括正在创建/编辑的事件）
+  @state()
+  private eventPaths: EventPath[] = []
+
+  // 非连续标注各片段之间的连接线
+  @state()
+  private fragmentLinkPaths: Array<{ id: string; d: string; color: string }> = []
+
   @state()
   private visibleLayerHeight = 0
 
@@ -231,10 +400,14 @@ export class YsTextAnnotation extends LitElement {
   private resetToDefaultMode() {
     // 清理编辑层相关状态
     this.selectedTextInfo = null
+    this.selectionFragments = []
     this.savedRange = null
     this.editInputValue = ''
+    this.editAttributeValues = {}
     this.selectedAnnotationType = ''
     this.selectedRelationshipType = ''
+    this.typePickerOpen = false
+    this.typePickerKeyword = ''
     this.justSelectedText = false
     this.editingAnnotationId = null
     this.editingRelationshipId = null
@@ -244,6 +417,11 @@ export class YsTextAnnotation extends LitElement {
 
     // 清理关系创建相关状态和事件监听
     this.cancelRelationshipCreation()
+    // 清理事件创建相关状态和事件监听
+    this.cancelEventCreation()
+    // 清理文本修改相关状态
+    this.editingLineId = null
+    this.editingLineText = ''
 
     // 重置功能模式到默认
     this.functionMode = FunctionMode.DEFAULT
@@ -262,6 +440,11 @@ export class YsTextAnnotation extends LitElement {
   private isSelectingText = false
   private mouseDownPosition = { x: 0, y: 0 }
 
+  /**
+   * 是否正在为当前标注追加片段（创建/编辑标注时按住 Shift 选择文本）
+   */
+  private isSelectingFragment = false
+
   /**
    * 是否刚刚完成文本选择（用于防止文本选择后的点击事件关闭编辑层）
    */
@@ -274,6 +457,10 @@ export class YsTextAnnotation extends LitElement {
 
   private selectedTextInfo: SelectedTextInfo | null = null
 
+  // 按住 Shift 追加的片段（非连续标注），不包含正在编辑的标注已有的片段
+  @state()
+  private selectionFragments: SelectedTextInfo[] = []
+
   private savedRange: Range | null = null
 
   // ==================== 关系创建相关状态 ====================
@@ -303,7 +490,8 @@ export class YsTextAnnotation extends LitElement {
       this.isHoveringHighlight ||
       this.functionMode === FunctionMode.CONTEXT_MENU_OPEN ||
       this.functionMode === FunctionMode.CREATING_RELATIONSHIP ||
-      this.functionMode === FunctionMode.CREATING_ANNOTATION
+      this.functionMode === FunctionMode.CREATING_ANNOTATION ||
+      this.functionMode === FunctionMode.CREATING_EVENT
     ) {
       return LayerDisplayMode.HIGHLIGHT_RELATIONSHIP
     }
@@ -343,23 +531,31 @@ export class YsTextAnnotation extends LitElement {
     }
     // 确保分组数据已初始化
     this.updateGroupedAnnotations()
+    // 使组件可以获得焦点，以响应撤销/重做、键盘光标等快捷键
+    if (!this.hasAttribute('tabindex')) {
+      this.tabIndex = 0
+    }
+    this.addEventListener('keydown', this.handleHostKeyDown)
   }
 
   disconnectedCallback() {
     super.disconnectedCallback()
     this.updateTimer && cancelAnimationFrame(this.updateTimer)
     this.relationshipTimer && cancelAnimationFrame(this.relationshipTimer)
+    this.keyboardCaretTimer && cancelAnimationFrame(this.keyboardCaretTimer)
     if (this.scrollThrottleTimer) {
       clearTimeout(this.scrollThrottleTimer)
       this.scrollThrottleTimer = undefined
     }
     this.resizeObserver?.disconnect()
+    this.removeEventListener('keydown', this.handleHostKeyDown)
     if (this.globalMouseUpHandler) {
       document.removeEventListener('mouseup', this.globalMouseUpHandler)
       this.globalMouseUpHandler = undefined
     }
-    // 清理关系创建相关的事件监听
+    // 清理关系、事件创建相关的事件监听
     this.cancelRelationshipCreation()
+    this.cancelEventCreation()
   }
 
   /**
@@ -368,11 +564,24 @@ export class YsTextAnnotation extends LitElement {
    */
   init(config: {
     editable?: boolean
+    textEditable?: boolean
+    allowOverlap?: boolean
+    quickLabel?: boolean
+    quickLabelType?: string
+    offsetMode?: OffsetMode
+    offsetUnit?: OffsetUnit
     content?: string
-    annotations?: AnnotationItem[]
+    annotations?: AnnotationItem[] | GlobalAnnotationItem[]
     relationships?: RelationshipItem[]
+    events?: EventItem[]
     annotationType?: AnnotationType[]
     relationshipType?: RelationshipType[]
+    eventType?: EventType[]
+    documentLabelType?: ClassificationType[]
+    lineLabelType?: ClassificationType[]
+    documentLabels?: string[]
+    lineLabels?: LineLabelItem[]
+    typeFilter?: string[]
     relationshipTypeResolver?: relationshipTypeResolver
     relationshipTypeFilter?: RelationshipTypeFilter
     annotationValidator?: AnnotationValidator
@@ -383,6 +592,28 @@ export class YsTextAnnotation extends LitElement {
     if (config.editable) {
       this.editingEnabled = config.editable
     }
+    // 直接修改文本
+    if (config.textEditable !== undefined) {
+      this.textEditingEnabled = config.textEditable
+    }
+    // 嵌套/重叠标注
+    if (config.allowOverlap !== undefined) {
+      this.allowOverlap = config.allowOverlap
+    }
+    // 快速标注
+    if (config.quickLabel !== undefined) {
+      this.quickLabelEnabled = config.quickLabel
+    }
+    if (config.quickLabelType !== undefined) {
+      this.quickLabelType = config.quickLabelType
+    }
+    // 偏移量模式和单位（需先于标注数据设置）
+    if (config.offsetMode !== undefined) {
+      this.offsetMode = config.offsetMode
+    }
+    if (config.offsetUnit !== undefined) {
+      this.offsetUnit = config.offsetUnit
+    }
     // 批量设置属性，避免多次触发 updated
     if (config.content !== undefined) {
       this.content = config.content
@@ -393,12 +624,33 @@ export class YsTextAnnotation extends LitElement {
     if (config.relationshipType !== undefined) {
       this.relationshipType = config.relationshipType
     }
+    if (config.eventType !== undefined) {
+      this.eventType = config.eventType
+    }
+    if (config.documentLabelType !== undefined) {
+      this.documentLabelType = config.documentLabelType
+    }
+    if (config.lineLabelType !== undefined) {
+      this.lineLabelType = config.lineLabelType
+    }
+    if (config.typeFilter !== undefined) {
+      this.typeFilter = config.typeFilter
+    }
     if (config.annotations !== undefined) {
-      this.annotations = config.annotations
+      this.annotations = this.importAnnotations(config.annotations)
     }
     if (config.relationships !== undefined) {
       this.relationships = config.relationships
     }
+    if (config.events !== undefined) {
+      this.events = config.events
+    }
+    if (config.documentLabels !== undefined) {
+      this.documentLabels = config.documentLabels
+    }
+    if (config.lineLabels !== undefined) {
+      this.lineLabels = config.lineLabels
+    }
     // 设置关系选择器
     if (config.relationshipTypeResolver !== undefined) {
       this.relationshipTypeResolver = config.relationshipTypeResolver
@@ -419,19 +671,44 @@ export class YsTextAnnotation extends LitElement {
     if (config.relationshipValidator !== undefined) {
       this.relationshipValidator = config.relationshipValidator
     }
+    this.clearHistory()
   }
 
   /**
    * 设置选中项
    * @param config 配置对象
+   * @param options.recordHistory 是否记录到撤销历史（默认不记录，此时清空撤销历史）
    */
-  setData(config: { annotations?: AnnotationItem[]; relationships?: RelationshipItem[] }) {
+  setData(
+    config: {
+      annotations?: AnnotationItem[] | GlobalAnnotationItem[]
+      relationships?: RelationshipItem[]
+      events?: EventItem[]
+      documentLabels?: string[]
+      lineLabels?: LineLabelItem[]
+    },
+    options: { recordHistory?: boolean } = {}
+  ) {
+    if (options.recordHistory) {
+      this.recordHistory()
+    } else {
+      this.clearHistory()
+    }
     if (config.annotations !== undefined) {
-      this.annotations = config.annotations
+      this.annotations = this.importAnnotations(config.annotations)
     }
     if (config.relationships !== undefined) {
       this.relationships = config.relationships
     }
+    if (config.events !== undefined) {
+      this.events = config.events
+    }
+    if (config.documentLabels !== undefined) {
+      this.documentLabels = config.documentLabels
+    }
+    if (config.lineLabels !== undefined) {
+      this.lineLabels = config.lineLabels
+    }
   }
 
   /**
@@ -439,183 +716,1313 @@ export class YsTextAnnotation extends LitElement {
    */
   getData() {
     return {
-      node: this.annotations || [],
-      line: this.relationships || []
+      node: this.exportAnnotations(),
+      line: this.relationships || [],
+      event: this.events || [],
+      documentLabel: this.documentLabels || [],
+      lineLabel: this.lineLabels || []
     }
   }
 
-  updated(changedProperties: Map<string | number | symbol, unknown>) {
-    super.updated(changedProperties)
-    // 当 content 属性从外部改变时，更新 lines
-    if (changedProperties.has('content')) {
-      this.updateLines()
-      this.hasInitializedLines = true
-    }
+  /**
+   * 获取各类型的标注数量
+   * @param options.rollup 是否将子类型的数量汇总到所有父类型（如 Capital 的标注同时计入 City 和 Location）
+   */
+  getTypeStatistics(options: { rollup?: boolean } = {}): Record<string, number> {
+    return countAnnotationsByType(this.annotations, this.annotationType, options.rollup)
+  }
 
-    // 当编辑状态关闭时，强制 functionMode 为 DEFAULT 并清理相关状态
-    if (changedProperties.has('editingEnabled')) {
-      if (!this.editingEnabled) {
-        this.functionMode = FunctionMode.DEFAULT
-        this.resetToDefaultMode()
+  /**
+   * 全局 [start, end) 偏移量转换为段落内范围
+   * 基于当前文本内容，段落之间的 \n 计 1 个字符，偏移量单位由 offsetUnit 决定
+   */
+  globalToLineRange(start: number, end: number): LineRange {
+    return globalRangeToLineRange(this.offsetIndex.starts, start, end)
+  }
+
+  /**
+   * 段落内范围转换为全局 [start, end) 偏移量（基于当前文本内容，偏移量单位由 offsetUnit 决定）
+   */
+  lineToGlobalRange(range: LineRange): { start: number; end: number } {
+    return lineRangeToGlobalRange(this.offsetIndex.starts, range)
+  }
+
+  private offsetIndexCache: { content: string; unit: OffsetUnit; boundaries: Array<number[] | null>; starts: number[] } | null = null
+
+  /**
+   * 便捷计算属性：偏移量换算索引（各段落的字符单位边界，以及按该单位计算的各段落起始偏移量）
+   * 直接基于 content 计算（而不是 lines），保证在 init 中同时设置内容和标注时也能正确转换
+   */
+  private get offsetIndex() {
+    if (this.offsetIndexCache?.content !== this.content || this.offsetIndexCache.unit !== this.offsetUnit) {
+      const lineContents = this.content.split('\n')
+      const boundaries = lineContents.map(text => getOffsetBoundaries(text, this.offsetUnit))
+      this.offsetIndexCache = {
+        content: this.content,
+        unit: this.offsetUnit,
+        boundaries,
+        starts: getLineStartOffsets(lineContents.map((text, index) => getUnitLength(text, boundaries[index])))
       }
     }
+    return this.offsetIndexCache
+  }
 
-    // 如果 editingEnabled 为 false，强制保持 DEFAULT 模式
-    if (!this.editingEnabled && this.functionMode !== FunctionMode.DEFAULT) {
-      this.functionMode = FunctionMode.DEFAULT
-      this.resetToDefaultMode()
-    }
+  /**
+   * 按偏移量模式和单位将外部传入的标注转换为内部格式（段落内 UTF-16 下标）
+   */
+  private importAnnotations(annotations: AnnotationItem[] | GlobalAnnotationItem[]): AnnotationItem[] {
+    const { starts, boundaries } = this.offsetIndex
+    const lineAnnotations =
+      this.offsetMode === 'global'
+        ? (annotations as GlobalAnnotationItem[]).map(annotation => annotationFromGlobal(annotation, starts))
+        : (annotations as AnnotationItem[])
+    if (this.offsetUnit === 'utf16') return lineAnnotations
+    return lineAnnotations.map(annotation => mapAnnotationOffsets(annotation, (lineId, offset) => unitToUtf16Offset(boundaries[lineId] ?? null, offset)))
+  }
 
-    // 当 annotations 或 lines 变化时，更新分组
-    if (changedProperties.has('annotations') || changedProperties.has('lines')) {
-      this.updateGroupedAnnotations()
+  /**
+   * 按偏移量模式和单位将内部标注转换为对外输出的格式
+   */
+  private exportAnnotations(source: AnnotationItem[] = this.annotations): AnnotationItem[] | GlobalAnnotationItem[] {
+    const { starts, boundaries } = this.offsetIndex
+    let annotations = source || []
+    if (this.offsetUnit !== 'utf16') {
+      annotations = annotations.map(annotation =>
+        mapAnnotationOffsets(annotation, (lineId, offset) => utf16ToUnitOffset(boundaries[lineId] ?? null, offset))
+      )
     }
+    if (this.offsetMode !== 'global') return annotations
+    return annotations.map(annotation => annotationToGlobal(annotation, starts))
+  }
 
-    // 当 annotations 或 relationships 变化时，派发数据变化事件
-    if (changedProperties.has('annotations') || changedProperties.has('relationships')) {
-      this.dispatchDataChangeEvent()
-    }
+  /**
+   * -------------------------------------------------- 导入导出 --------------------------------------------------
+   */
 
-    if (
-      changedProperties.has('visibleStartIndex') ||
-      changedProperties.has('visibleEndIndex') ||
-      changedProperties.has('annotations') ||
-      changedProperties.has('relationships')
-    ) {
-      this.scheduleMeasureRelationships()
-    }
+  /**
+   * 导入 brat 标注（.txt 文本 + .ann 标注文件），替换当前的文本和所有数据
+   * T 行导入为标注，R 行导入为关系，E 行导入为事件，A/M 行导入为属性，# 行（AnnotatorNotes）导入为描述
+   * 不支持的内容（如 N 规范化、* 等价关系）会被忽略，并通过 error 事件（BRAT_UNSUPPORTED）报告
+   */
+  importBrat(txt: string, ann: string) {
+    const { issues, ...data } = parseBrat(txt, ann)
+    this.applyImportedData(txt, data)
+    this.reportFormatIssues('导入 brat 标注', 'BRAT_UNSUPPORTED', issues)
+  }
 
-    // 当可见范围变化时，测量并更新高度（不定高虚拟列表核心逻辑）
-    if (changedProperties.has('visibleStartIndex') || changedProperties.has('visibleEndIndex')) {
-      // 使用 requestAnimationFrame 确保 DOM 已渲染
-      requestAnimationFrame(() => {
-        this.measureAndUpdateHeights()
-      })
-    }
+  /**
+   * 导出为 brat 标注（.txt 文本 + .ann 标注文件）
+   */
+  exportBrat(): { txt: string; ann: string } {
+    const { ann, issues } = serializeBrat(this.content, { annotations: this.annotations, relationships: this.relationships, events: this.events })
+    this.reportFormatIssues('导出 brat 标注', 'BRAT_UNSUPPORTED', issues)
+    return { txt: this.content, ann }
   }
 
   /**
-   * 派发数据变化事件
+   * 导入 CoNLL 序列标注（BIO/BIOES 标签），替换当前的文本和所有数据
+   * 每个句子还原为一个段落，词元之间以 options.joiner 连接（缺省时以空格连接，中文、日文前后不加空格）
    */
-  private dispatchDataChangeEvent() {
-    this.dispatchEvent(
-      new CustomEvent<DataChangeEventDetail>('data-change', {
-        detail: {
-          annotations: this.annotations,
-          relationships: this.relationships
-        },
-        bubbles: true,
-        composed: true
-      })
-    )
+  importConll(conll: string, options: ConllImportOptions = {}) {
+    const { content, annotations, issues } = parseConll(conll, options)
+    this.applyImportedData(content, { annotations })
+    this.reportFormatIssues('导入 CoNLL 标注', 'CONLL_UNSUPPORTED', issues)
   }
 
   /**
-   * 派发错误事件
-   * 用于向外部暴露组件内部的错误信息，让外部用户自行处理错误提示
-   * @param message 错误消息
-   * @param code 错误代码（可选）
-   * @param data 附加数据（可选）
+   * 导出为 CoNLL 序列标注：每个段落分词后作为一个句子，按当前标注为词元打上 BIO/BIOES 标签
+   * 边界与分词边界不一致、跨行、非连续或相互重叠的标注无法表示，会被跳过并通过 error 事件（CONLL_UNSUPPORTED）报告
    */
-  dispatchError(message: string, code?: string, data?: any) {
-    this.dispatchEvent(
-      new CustomEvent<ErrorEventDetail>('error', {
-        detail: {
-          message,
-          code,
-          data
-        },
-        bubbles: true,
-        composed: true
-      })
-    )
+  exportConll(options: ConllExportOptions = {}): string {
+    const lines = this.content.split('\n').map(content => ({ content }))
+    const { conll, issues } = serializeConll(lines, this.annotations, options)
+    this.reportFormatIssues('导出 CoNLL 标注', 'CONLL_UNSUPPORTED', issues)
+    return conll
   }
 
-  firstUpdated() {
-    if (!this.scrollContainer) return
+  // 最近一次导入的 Label Studio 任务（导出时保留任务id、其余任务数据和标注结果id）
+  private labelStudioSource: LabelStudioTask | null = null
 
-    this.scrollContainer.addEventListener('scroll', () => this.handleScroll())
-    // 确保在 updateVisibleRange 之前设置 containerHeight，这样 getTotalHeight 才能正确计算底部额外空间
-    const clientHeight = this.scrollContainer.clientHeight
-    if (clientHeight > 0 && clientHeight !== this.containerHeight) {
-      this.containerHeight = clientHeight
+  /**
+   * 导入 Label Studio 任务，替换当前的文本和所有数据
+   * labels 结果导入为标注、relation 结果导入为关系，结果id 直接作为标注id、关系id；其余结果类型通过 error 事件（LABEL_STUDIO_UNSUPPORTED）报告
+   */
+  importLabelStudio(task: LabelStudioTask, options: LabelStudioOptions = {}) {
+    const { content, issues, ...data } = parseLabelStudio(task, options)
+    this.applyImportedData(content, data)
+    this.labelStudioSource = task
+    this.reportFormatIssues('导入 Label Studio 任务', 'LABEL_STUDIO_UNSUPPORTED', issues)
+  }
+
+  /**
+   * 导出为 Label Studio 任务（标注导出为 labels 结果、关系导出为 relation 结果，结果id 与标注id、关系id 相同）
+   */
+  exportLabelStudio(options: LabelStudioOptions = {}): LabelStudioTask {
+    const data = { annotations: this.annotations, relationships: this.relationships }
+    const { task, issues } = serializeLabelStudio(this.content, data, options, this.labelStudioSource)
+    this.reportFormatIssues('导出 Label Studio 任务', 'LABEL_STUDIO_UNSUPPORTED', issues)
+    return task
+  }
+
+  // 最近一次导入的 doccano JSONL 中的所有文档，以及当前显示的文档下标（导出时替换该文档，其余文档原样保留）
+  private doccanoSource: { documents: DoccanoDocument[]; index: number } | null = null
+
+  /**
+   * 导入 doccano JSONL 中的一个文档，替换当前的文本和所有数据
+   * 实体导入为标注、关系导入为关系，未配置的标签自动补充到 annotationType、relationshipType（使用生成的颜色）
+   * @param options.index 导入第几个文档（从 0 开始，默认 0）
+   * @param options.offsetUnit start_offset/end_offset 的偏移量单位（默认 codepoint，与 doccano 一致）
+   */
+  importDoccano(jsonl: string, options: DoccanoOptions & { index?: number } = {}) {
+    const { index = 0, offsetUnit = 'codepoint' } = options
+    const { documents, issues } = parseJsonl(jsonl)
+    const document = documents[index]
+    if (!document) {
+      this.dispatchError(`doccano 数据中没有第 ${index + 1} 个文档（共 ${documents.length} 个）`, 'DOCCANO_UNSUPPORTED', issues)
+      return
     }
+    const { content, issues: documentIssues, ...data } = parseDoccano(document, offsetUnit)
+    this.applyImportedData(content, data)
+    this.doccanoSource = { documents, index }
+    this.reportFormatIssues('导入 doccano 数据', 'DOCCANO_UNSUPPORTED', [...issues, ...documentIssues])
+  }
 
-    // 初始化 VirtualCore
-    this.initVirtualCore()
+  /**
+   * 导出为 doccano JSONL
+   * 传入 documents 时返回这些文档，当前文档替换其中第 index 个（默认追加到末尾）；
+   * 否则之前导入过 doccano 数据时，返回导入的全部文档（当前文档替换为修改后的结果，其余文档原样保留），都没有时只包含当前文档一行
+   * @param options.id 当前文档的 id（覆盖原文档的 id）
+   * @param options.metadata 当前文档的其他字段（覆盖原文档中的同名字段）
+   */
+  exportDoccano(options: DoccanoExportOptions = {}): string {
+    const { offsetUnit = 'codepoint', id, metadata } = options
+    const source = options.documents
+      ? { documents: options.documents, index: Math.min(options.index ?? options.documents.length, options.documents.length) }
+      : this.doccanoSource
+    const original = source?.documents[source.index]
+    const sourceDocument =
+      original || metadata || id !== undefined ? { ...original, ...metadata, ...(id !== undefined ? { id } : {}), text: this.content } : undefined
+    const data = { annotations: this.annotations, relationships: this.relationships }
+    const { document, issues } = serializeDoccano(this.content, data, offsetUnit, sourceDocument)
+    this.reportFormatIssues('导出 doccano 数据', 'DOCCANO_UNSUPPORTED', issues)
+    const documents = source ? [...source.documents] : []
+    documents[source ? source.index : 0] = document
+    return `${documents.map(item => JSON.stringify(item)).join('\n')}\n`
+  }
 
-    // 监听文本选择事件（只处理左键）
-    this.scrollContainer.addEventListener('mousedown', (e: MouseEvent) => {
-      // 如果不在默认模式，不允许文本选择
-      if (this.functionMode !== FunctionMode.DEFAULT) {
-        return
-      }
-      // 只处理左键（button === 0），忽略右键和中键
-      if (e.button === 0) {
-        this.isSelectingText = true
-        this.mouseDownPosition = { x: e.clientX, y: e.clientY }
-      }
-    })
+  /**
+   * 导入 W3C Web Annotation（单个 Annotation、Annotation 列表、AnnotationPage 或 AnnotationCollection），替换当前的文本和所有数据
+   * 标注导入为标注，motivation 为 linking 的链接标注导入为关系；文本已修改导致位置偏移时，按 TextQuoteSelector 重新定位
+   * 无法定位的标注通过 error 事件（WEB_ANNOTATION_UNSUPPORTED）报告
+   * @param content 标注所在的文本（可以是修改后的文本）
+   */
+  importWebAnnotations(content: string, data: WebAnnotation | WebAnnotation[] | Record<string, unknown>, options: WebAnnotationOptions = {}) {
+    const { issues, ...result } = parseWebAnnotations(content, data, options)
+    this.applyImportedData(content, result)
+    this.reportFormatIssues('导入 Web Annotation', 'WEB_ANNOTATION_UNSUPPORTED', issues)
+  }
 
-    // 监听 mouseup 事件，获取选中的文本（只处理左键）
-    this.scrollContainer.addEventListener('mouseup', (e: MouseEvent) => {
-      // 如果不在默认模式，不允许文本选择
-      if (this.functionMode !== FunctionMode.DEFAULT) {
-        return
-      }
-      // 只处理左键（button === 0）
-      if (e.button !== 0) {
-        return
-      }
+  /**
+   * 导出为 W3C Web Annotation 列表（JSON-LD）
+   * 标注导出为带 TextPositionSelector 和 TextQuoteSelector 的 Annotation，关系导出为 motivation 为 linking 的链接标注
+   */
+  exportWebAnnotations(options: WebAnnotationOptions = {}): WebAnnotation[] {
+    return serializeWebAnnotations(this.content, { annotations: this.annotations, relationships: this.relationships }, options)
+  }
 
-      // 检查鼠标是否移动过（即是否真的选择了文本）
-      const mouseMoved = Math.abs(e.clientX - this.mouseDownPosition.x) > 2 || Math.abs(e.clientY - this.mouseDownPosition.y) > 2
+  /**
+   * 将标注和关系导出为图：标注为节点（类型、文本、描述、段落id），关系为有向边
+   * @param format graphml（Gephi 等）、dot（Graphviz）或 cypher（Neo4j CREATE 脚本）
+   * @param options.mergeEntities 是否将文本和类型都相同的标注合并为一个实体节点
+   */
+  exportGraph(format: GraphExportFormat, options: GraphExportOptions = {}): string {
+    const graph = buildGraph(this.annotations, this.relationships, options)
+    if (format === 'dot') return serializeDot(graph)
+    if (format === 'cypher') return serializeCypher(graph)
+    return serializeGraphML(graph)
+  }
 
-      if (!mouseMoved) {
-        // 如果鼠标没有移动，只是点击，不处理
-        setTimeout(() => {
-          this.isSelectingText = false
-        }, 100)
-        return
-      }
+  /**
+   * 导出为 NIF（NLP Interchange Format）RDF，使用 Turtle 语法：文档为 nif:Context，每个标注为带起止偏移量的 nif:String
+   * 标注类型通过 itsrdf:taClassRef 关联到 options.typeUris 中的类，关系按 options.predicateUris 导出为三元组
+   * 非连续标注无法表示，会被跳过并通过 error 事件（NIF_UNSUPPORTED）报告
+   */
+  exportNIF(options: NIFOptions = {}): string {
+    const { turtle, issues } = serializeNIF(this.content, { annotations: this.annotations, relationships: this.relationships }, options)
+    this.reportFormatIssues('导出 NIF', 'NIF_UNSUPPORTED', issues)
+    return turtle
+  }
 
-      // 直接获取选择
-      const selection = getShadowDOMSelection(this.shadowRoot)
-      if (selection && selection.rangeCount > 0) {
-        const range = selection.getRangeAt(0)
-        if (!range.collapsed && range.toString().trim()) {
-          // 保存 Range 并处理选择
-          this.savedRange = range.cloneRange()
-          // 标记刚刚完成文本选择，防止后续的 click 事件关闭编辑层
-          this.justSelectedText = true
-          this.handleTextSelection()
-          // 在下一个事件循环中重置标志，确保 editLayer 已经渲染
-          setTimeout(() => {
-            this.justSelectedText = false
-          }, 0)
-        }
-      }
+  /**
+   * 导出为独立的 HTML 文档（内联样式），包含类型图例、带类型标签的彩色高亮文本以及关系列表，可以直接用浏览器打开
+   */
+  exportHTML(options: DocumentExportOptions = {}): string {
+    return serializeHTML(this.getDocumentLines(), this.getDocumentData(), options)
+  }
 
-      this.isSelectingText = false
-    })
+  /**
+   * 导出为 Markdown 文档：标注文本加粗并以脚注说明类型和描述，文末附关系列表
+   */
+  exportMarkdown(options: DocumentExportOptions = {}): string {
+    return serializeMarkdown(this.getDocumentLines(), this.getDocumentData(), options)
+  }
 
-    // 监听全局 mouseup 事件，确保即使鼠标在容器外松开也能重置状态
-    this.globalMouseUpHandler = () => {
-      if (this.isSelectingText) {
-        this.isSelectingText = false
-      }
+  private getDocumentLines(): LineItem[] {
+    return this.content.split('\n').map((content, id) => ({ id, content }))
+  }
+
+  private getDocumentData() {
+    return {
+      annotations: this.annotations,
+      relationships: this.relationships,
+      annotationType: this.annotationType,
+      relationshipType: this.relationshipType
     }
-    document.addEventListener('mouseup', this.globalMouseUpHandler)
+  }
 
-    // 监听容器大小变化
-    this.resizeObserver = new ResizeObserver(() => {
-      if (this.scrollContainer) {
-        this.measureLineHeight()
-        this.updateVisibleRange() // containerHeight 会在 updateVisibleRange 中更新
-        this.scheduleMeasureRelationships()
-      }
-    })
-    this.resizeObserver.observe(this.scrollContainer)
+  /**
+   * 导出指定段落范围的快照（独立的 SVG），包含标注高亮和关系连线，可以直接用于报告、幻灯片
+   * 段落在离屏容器中重新排版，因此不受虚拟列表当前渲染范围的限制；端点不在范围内的关系不绘制
+   */
+  async exportSVG(options: SnapshotOptions = {}): Promise<string> {
+    try {
+      return (await this.createSnapshot(options)).svg
+    } catch (error) {
+      this.dispatchError('生成快照失败', 'SNAPSHOT_FAILED', error)
+      throw error
+    }
+  }
+
+  /**
+   * 导出指定段落范围的快照图片（PNG），通过 canvas 将 exportSVG 的结果栅格化
+   * 部分浏览器（如 Safari）绘制包含 foreignObject 的 SVG 后 canvas 会被污染，此时抛出错误并触发 SNAPSHOT_FAILED
+   */
+  async exportPNG(options: SnapshotOptions = {}): Promise<Blob> {
+    try {
+      const { svg, width, height } = await this.createSnapshot(options)
+      return await rasterizeSVG(svg, width, height, options.scale ?? (window.devicePixelRatio || 1))
+    } catch (error) {
+      this.dispatchError('生成快照失败', 'SNAPSHOT_FAILED', error)
+      throw error
+    }
+  }
+
+  /**
+   * 生成快照：将段落渲染到组件内的离屏容器中（沿用组件样式），测量关系连线后序列化为 SVG，最后移除容器
+   */
+  private async createSnapshot(options: SnapshotOptions): Promise<{ svg: string; width: number; height: number }> {
+    if (!this.shadowRoot) throw new Error('组件尚未渲染')
+    // 等待字体加载完成，避免按回退字体排版
+    await document.fonts?.ready
+
+    const startLineId = Math.max(0, options.startLineId ?? this.visibleStartIndex)
+    const endLineId = Math.min(this.lines.length - 1, options.endLineId ?? this.visibleEndIndex)
+    if (endLineId < startLineId) throw new Error(`段落范围 ${startLineId}-${endLineId} 为空`)
+    const lines = this.lines.slice(startLineId, endLineId + 1)
+    const width = Math.ceil(options.width ?? (this.virtualListLayer?.clientWidth || 800))
+
+    const container = document.createElement('div')
+    container.style.cssText = `position: fixed; top: 0; left: -100000px; width: ${width}px;`
+    this.shadowRoot.appendChild(container)
+    try {
+      render(
+        html`
+          <div class="virtual-list-layer">
+            <div class="virtual-list-content">
+              ${lines.map(
+                line => html`
+                  <div class="line" data-line-id=${line.id}>
+                    ${this.showLineNumber ? html`<span class="line-number">${line.id + 1}</span>` : null} ${this.renderLineLabelGutter(line)}
+                    <span class="line-content">${this.renderLineContent(line)}</span>
+                  </div>
+                `
+              )}
+            </div>
+          </div>
+        `,
+        container
+      )
+      const layer = container.querySelector<HTMLElement>('.virtual-list-layer')!
+      const height = Math.ceil(layer.getBoundingClientRect().height)
+
+      const hostStyle = getComputedStyle(this)
+      const nodeColor = hostStyle.getPropertyValue('--default-node-color').trim() || '#2d0bdf'
+      const lineColor = hostStyle.getPropertyValue('--default-line-color').trim() || '#c3427f'
+
+      // 被类型过滤隐藏的标注不绘制关系
+      const displayedIds = new Set(this.displayedAnnotations.map(annotation => annotation.id))
+      const paths: RelationshipPath[] = []
+      for (const relationship of this.relationships) {
+        const { id, startId, endId, type, color } = relationship
+        if (!displayedIds.has(startId) || !displayedIds.has(endId)) continue
+        const startElement = this.getAnnotationAnchorElements(startId, undefined, container)
+        const endElement = this.getAnnotationAnchorElements(endId, undefined, container)
+        if (!startElement || !endElement) continue
+
+        const connection = calculateAnnotationToAnnotationConnection(startElement, endElement, layer)
+        const { startPos, endPos, startDirection, endDirection } = connection
+        const bezierResult = calculateSBezierCurvePath(startPos, endPos, startDirection, endDirection, type || '')
+        paths.push({
+          id,
+          d: bezierResult.d,
+          label: type || '',
+          color: color || lineColor,
+          labelX: bezierResult.labelX,
+          labelY: bezierResult.labelY,
+          labelAngle: bezierResult.labelAngle,
+          startPos,
+          endPos
+        })
+      }
+
+      const css = [
+        ...YsTextAnnotation.styles.map(style => style.cssText.replace(/:host/g, '.snapshot-root')),
+        `.snapshot-root { --default-node-color: ${nodeColor}; --default-line-color: ${lineColor}; }`
+      ].join('\n')
+      const svg = serializeSnapshotSVG({
+        width,
+        height,
+        background: options.background || '#fff',
+        fontFamily: hostStyle.fontFamily,
+        css,
+        body: new XMLSerializer().serializeToString(layer),
+        paths
+      })
+      return { svg, width, height }
+    } finally {
+      container.remove()
+    }
+  }
+
+  /**
+   * 导入 TEI XML（<p> 为段落，<rs>/映射元素为标注，<listRelation> 为关系），替换当前的文本和所有数据
+   * @param options.elementMap 标注类型 → TEI 元素名，与导出时相同
+   */
+  importTEI(xml: string, options: TEIOptions = {}) {
+    const { content, issues, ...data } = parseTEI(xml, options)
+    this.applyImportedData(content, data)
+    this.reportFormatIssues('导入 TEI', 'TEI_UNSUPPORTED', issues)
+  }
+
+  /**
+   * 导出为 TEI XML：每个段落为一个 <p>，标注为内联的 <rs type="..."> 或按 elementMap 映射的元素，关系为 <standOff> 中的 <listRelation>
+   * 跨行、非连续或交叉重叠的标注无法内联表示，会被跳过并通过 error 事件（TEI_UNSUPPORTED）报告
+   */
+  exportTEI(options: TEIOptions = {}): string {
+    const { xml, issues } = serializeTEI(this.getDocumentLines(), { annotations: this.annotations, relationships: this.relationships }, options)
+    this.reportFormatIssues('导出 TEI', 'TEI_UNSUPPORTED', issues)
+    return xml
+  }
+
+  /**
+   * 应用导入的数据：替换文本和所有数据，并为未配置的类型补充类型配置（使用生成的颜色）
+   */
+  private applyImportedData(content: string, data: { annotations: AnnotationItem[]; relationships?: RelationshipItem[]; events?: EventItem[] }) {
+    const relationships = data.relationships || []
+    const events = data.events || []
+    this.resetToDefaultMode()
+    this.labelStudioSource = null
+    this.doccanoSource = null
+    this.clearHistory()
+    this.content = content
+    this.annotations = data.annotations
+    this.relationships = relationships
+    this.events = events
+    this.lineLabels = []
+    this.annotationType = appendMissingTypes(
+      this.annotationType,
+      data.annotations.map(annotation => annotation.type)
+    )
+    this.relationshipType = appendMissingTypes(
+      this.relationshipType,
+      relationships.map(relationship => relationship.type)
+    )
+    this.eventType = appendMissingTypes(
+      this.eventType,
+      events.map(event => event.type)
+    )
+  }
+
+  /**
+   * 通过 error 事件报告导入导出时不支持或无法转换的内容
+   */
+  private reportFormatIssues(action: string, code: string, issues: FormatIssue[]) {
+    if (issues.length === 0) return
+    this.dispatchError(`${action}时有 ${issues.length} 处内容不受支持或无法转换`, code, issues)
+  }
+
+  /**
+   * 设置文本内容
+   * 开启 remap 时对比新旧文本，将已有标注和段落标签移动到新文本中对应的位置（修改落在标注边界上时裁剪标注范围），
+   * 文本被完全删除、无法重新定位的标注会被移除，并通过 annotations-unanchored 事件通知
+   * @param options.remap 是否重新定位已有标注（默认 false，与直接设置 content 属性相同）
+   */
+  setContent(content: string, options: { remap?: boolean } = {}) {
+    if (!options.remap || content === this.content) {
+      this.content = content
+      return
+    }
+
+    this.remapContent(content, diffText(this.content, content))
+  }
+
+  /**
+   * 按文本修改更新内容，并重新定位已有标注和段落标签
+   * @param edits 新旧文本之间的修改（全局 UTF-16 下标）
+   */
+  private remapContent(content: string, edits: TextEdit[]) {
+    const oldLineStarts = getLineStartOffsets(this.content.split('\n').map(line => line.length))
+    const newLineStarts = getLineStartOffsets(content.split('\n').map(line => line.length))
+
+    const remapped: AnnotationItem[] = []
+    const unanchored: AnnotationItem[] = []
+    for (const annotation of this.annotations) {
+      const result = remapAnnotation(annotation, edits, this.content, oldLineStarts, content, newLineStarts)
+      if (result) {
+        remapped.push(result)
+      } else {
+        unanchored.push(annotation)
+      }
+    }
+    // 按修改前的内容转换无法定位的标注，便于外部据此处理
+    const unanchoredAnnotations = this.exportAnnotations(unanchored)
+
+    // 正在进行的选择、编辑基于旧内容，直接取消
+    this.resetToDefaultMode()
+    this.recordHistory()
+    this.content = content
+    this.historyContent = content
+    this.annotations = remapped
+    this.lineLabels = remapLineLabels(this.lineLabels, edits, oldLineStarts, newLineStarts)
+
+    if (unanchored.length > 0) {
+      const removed = this.removeAnnotationReferences(new Set(unanchored.map(annotation => annotation.id)))
+      this.dispatchEvent(
+        new CustomEvent<AnnotationsUnanchoredEventDetail>('annotations-unanchored', {
+          detail: { annotations: unanchoredAnnotations, ...removed },
+          bubbles: true,
+          composed: true
+        })
+      )
+    }
+  }
+
+  /**
+   * 移除引用了指定标注的关系和事件：删除以其为端点的关系、以其为触发词的事件，并从其他事件中移除这些论元
+   * @returns 被删除的关系和事件
+   */
+  private removeAnnotationReferences(ids: Set<string>): { relationships: RelationshipItem[]; events: EventItem[] } {
+    const removedRelationships = this.relationships.filter(relationship => ids.has(relationship.startId) || ids.has(relationship.endId))
+    if (removedRelationships.length > 0) {
+      this.relationships = this.relationships.filter(relationship => !removedRelationships.includes(relationship))
+    }
+
+    const removedEvents = this.events.filter(event => ids.has(event.triggerId))
+    if (this.events.some(event => ids.has(event.triggerId) || event.arguments.some(argument => ids.has(argument.annotationId)))) {
+      this.events = this.events
+        .filter(event => !ids.has(event.triggerId))
+        .map(event => ({ ...event, arguments: event.arguments.filter(argument => !ids.has(argument.annotationId)) }))
+    }
+    return { relationships: removedRelationships, events: removedEvents }
+  }
+
+  /**
+   * -------------------------------------------------- 撤销 / 重做 --------------------------------------------------
+   */
+
+  // 撤销栈：每次修改之前的数据快照；重做栈：每次撤销之前的数据快照
+  private undoStack: HistorySnapshot[] = []
+  private redoStack: HistorySnapshot[] = []
+  // 撤销历史所对应的文本内容；content 以其他方式被替换时（直接设置属性、不重新定位的 setContent），历史中的标注位置不再对应，需要清空历史
+  private historyContent = ''
+
+  /**
+   * 是否可以撤销
+   */
+  get canUndo(): boolean {
+    return this.undoStack.length > 0
+  }
+
+  /**
+   * 是否可以重做
+   */
+  get canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  /**
+   * 撤销上一次修改（标注、关系、事件、分类标签以及文本内容），正在进行的选择、编辑会被取消
+   */
+  undo() {
+    const snapshot = this.undoStack.pop()
+    if (!snapshot) return
+    this.redoStack.push(this.createHistorySnapshot())
+    this.restoreHistorySnapshot(snapshot, 'undo')
+  }
+
+  /**
+   * 重做上一次撤销的修改
+   */
+  redo() {
+    const snapshot = this.redoStack.pop()
+    if (!snapshot) return
+    this.undoStack.push(this.createHistorySnapshot())
+    this.restoreHistorySnapshot(snapshot, 'redo')
+  }
+
+  /**
+   * 记录修改之前的数据，在修改数据之前调用；新的修改会清空重做栈
+   */
+  private recordHistory() {
+    this.undoStack.push(this.createHistorySnapshot())
+    if (this.undoStack.length > MAX_HISTORY_SIZE) {
+      this.undoStack.shift()
+    }
+    this.redoStack = []
+  }
+
+  private clearHistory() {
+    this.undoStack = []
+    this.redoStack = []
+    this.historyContent = this.content
+  }
+
+  private createHistorySnapshot(): HistorySnapshot {
+    return {
+      content: this.content,
+      annotations: this.annotations,
+      relationships: this.relationships,
+      events: this.events,
+      documentLabels: this.documentLabels,
+      lineLabels: this.lineLabels
+    }
+  }
+
+  /**
+   * 恢复数据快照；文本内容随之改变时（撤销/重做了文本修改）派发 content-change 事件
+   */
+  private restoreHistorySnapshot(snapshot: HistorySnapshot, reason: ContentChangeEventDetail['reason']) {
+    const contentChanged = snapshot.content !== this.content
+    this.resetToDefaultMode()
+    this.content = snapshot.content
+    this.historyContent = snapshot.content
+    this.annotations = snapshot.annotations
+    this.relationships = snapshot.relationships
+    this.events = snapshot.events
+    this.documentLabels = snapshot.documentLabels
+    this.lineLabels = snapshot.lineLabels
+
+    if (contentChanged) {
+      this.dispatchEvent(
+        new CustomEvent<ContentChangeEventDetail>('content-change', {
+          detail: { content: snapshot.content, reason },
+          bubbles: true,
+          composed: true
+        })
+      )
+    }
+  }
+
+  /**
+   * -------------------------------------------------- 键盘操作 --------------------------------------------------
+   */
+
+  // 键盘光标位置（段落id + 段落内偏移量），按方向键或点击文本时设置
+  @state()
+  private keyboardCaret: TextPosition | null = null
+
+  // 按住 Shift 移动光标时的选区起点，选区为起点与光标之间的文本
+  @state()
+  private keyboardAnchor: TextPosition | null = null
+
+  // 光标相对于 content-wrapper 的位置（渲染后测量）
+  @state()
+  private keyboardCaretBox: { x: number; y: number; height: number } | null = null
+
+  private keyboardCaretTimer?: number
+  // 光标移动后是否需要滚动到光标所在位置
+  private revealKeyboardCaret = false
+  // 当前的浏览器选区是否由键盘选区设置（只清除自己设置的选区，不影响鼠标选择）
+  private hasKeyboardSelection = false
+  // 更新前焦点是否在组件内部的按钮等非表单控件上（如右键菜单项）
+  private hadInnerFocus = false
+
+  /**
+   * 组件快捷键
+   * - Ctrl/Cmd + Z 撤销，Ctrl/Cmd + Shift + Z（或 Ctrl + Y）重做
+   * - 方向键、Home/End 移动键盘光标，按住 Shift 选择文本，按住 Ctrl/Alt 按词移动
+   * - 选中文本后按 Enter 打开编辑层，按数字键 1-9 直接创建 annotationType 中对应类型的标注；快速标注模式下没有选区时数字键切换当前类型
+   * - 光标位于标注上时按 Enter（或菜单键、Shift + F10）打开右键菜单，菜单中按上下方向键切换、Enter 执行、Escape 关闭
+   * 焦点在输入框、下拉框等表单控件中时保留浏览器默认行为
+   */
+  private handleHostKeyDown = (e: KeyboardEvent) => {
+    if (!this.editingEnabled || e.isComposing || isFormControl(e.composedPath()[0])) return
+
+    const key = e.key.toLowerCase()
+    if ((e.ctrlKey || e.metaKey) && !e.altKey && (key === 'z' || key === 'y')) {
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        this.undo()
+      } else if (key === 'z' || !e.shiftKey) {
+        e.preventDefault()
+        this.redo()
+      }
+      return
+    }
+
+    if (this.functionMode === FunctionMode.CONTEXT_MENU_OPEN) {
+      this.handleContextMenuKeyDown(e)
+    } else if (e.composedPath()[0] === this) {
+      // 只处理焦点在组件本身时的按键，焦点在组件内的按钮上时保留按钮的默认行为
+      this.handleKeyboardCaretKeyDown(e)
+    }
+  }
+
+  /**
+   * 右键菜单打开时：上下方向键在菜单项之间切换焦点，Escape 关闭菜单（Enter、空格由按钮本身处理）
+   */
+  private handleContextMenuKeyDown(e: KeyboardEvent) {
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      this.resetToDefaultMode()
+      return
+    }
+    if (e.key !== 'ArrowDown' && e.key !== 'ArrowUp') return
+
+    e.preventDefault()
+    const items = Array.from(this.shadowRoot?.querySelectorAll<HTMLElement>('.context-menu-item') || [])
+    if (items.length === 0) return
+    const index = items.indexOf(this.shadowRoot?.activeElement as HTMLElement)
+    const step = e.key === 'ArrowDown' ? 1 : -1
+    const nextIndex = index < 0 ? (step > 0 ? 0 : items.length - 1) : (index + step + items.length) % items.length
+    items[nextIndex].focus()
+  }
+
+  /**
+   * 焦点在组件本身时的按键：移动光标、选择文本、创建标注、打开右键菜单
+   * 创建关系时同样可以移动光标，按 Enter 以光标所在的标注作为关系终点
+   */
+  private handleKeyboardCaretKeyDown(e: KeyboardEvent) {
+    const isCreatingRelationship = this.functionMode === FunctionMode.CREATING_RELATIONSHIP
+    if (this.functionMode !== FunctionMode.DEFAULT && !isCreatingRelationship) return
+
+    const target = this.getKeyboardCaretTarget(e)
+    if (target) {
+      e.preventDefault()
+      // 按住 Shift 时扩展选区（创建关系时只移动光标）
+      if (e.shiftKey && !isCreatingRelationship) {
+        this.keyboardAnchor = this.keyboardAnchor ?? this.keyboardCaret ?? target
+      } else {
+        this.keyboardAnchor = null
+      }
+      this.keyboardCaret = target
+      this.revealKeyboardCaret = true
+      return
+    }
+
+    if (e.key === 'Escape') {
+      if (isCreatingRelationship) {
+        e.preventDefault()
+        this.resetToDefaultMode()
+      } else if (this.keyboardAnchor) {
+        e.preventDefault()
+        this.keyboardAnchor = null
+      }
+      return
+    }
+
+    if (isCreatingRelationship) {
+      const annotation = e.key === 'Enter' ? this.getAnnotationAtKeyboardCaret() : null
+      if (annotation && annotation.id !== this.relationshipStartAnnotationId) {
+        e.preventDefault()
+        this.completeRelationshipCreation(annotation.id)
+      }
+      return
+    }
+
+    const hasSelection = !!this.getKeyboardSelection()
+    if (hasSelection && e.key === 'Enter') {
+      e.preventDefault()
+      this.createAnnotationFromKeyboard()
+      return
+    }
+    // 数字键：有选区时创建对应类型的标注，快速标注模式下没有选区时切换当前类型
+    if (/^[1-9]$/.test(e.key) && !e.ctrlKey && !e.altKey && !e.metaKey) {
+      const annotationType = this.annotationType[Number(e.key) - 1]
+      if (!annotationType || (!hasSelection && this.activeQuickLabelType === null)) return
+      e.preventDefault()
+      if (hasSelection) {
+        this.createAnnotationFromKeyboard(annotationType.type)
+      } else {
+        this.setQuickLabelType(annotationType.type)
+      }
+      return
+    }
+
+    if (e.key === 'Enter' || e.key === 'ContextMenu' || (e.key === 'F10' && e.shiftKey)) {
+      const annotation = this.getAnnotationAtKeyboardCaret()
+      const caretRect = this.keyboardCaret && this.getKeyboardCaretClientRect(this.keyboardCaret)
+      if (!annotation || !caretRect) return
+      e.preventDefault()
+      this.openAnnotationContextMenu(annotation.id, { clientX: caretRect.left, clientY: caretRect.bottom })
+    }
+  }
+
+  /**
+   * 根据按键计算光标的新位置，不是光标移动键时返回 null
+   * 左右方向键按字素簇（按住 Ctrl/Alt 时按词）移动，在段落首尾时移动到相邻段落；上下方向键移动到相邻段落的相同偏移量
+   * Home/End 移动到段落首尾（按住 Ctrl 时移动到文档首尾）；尚未设置光标时，光标出现在可见区域的第一个段落开头
+   */
+  private getKeyboardCaretTarget(e: KeyboardEvent): TextPosition | null {
+    if (!['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'Home', 'End'].includes(e.key) || e.metaKey) return null
+    if (this.lines.length === 0) return null
+
+    const caret = this.keyboardCaret
+    if (!caret) {
+      return { lineId: Math.min(this.visibleStartIndex, this.lines.length - 1), offset: 0 }
+    }
+
+    const text = this.lines[caret.lineId].content
+    const unit = e.ctrlKey || e.altKey ? 'word' : 'character'
+    // 有选区时不按 Shift 的左右方向键收起选区
+    const selection = e.shiftKey ? null : this.getKeyboardSelection()
+    switch (e.key) {
+      case 'ArrowLeft':
+        if (selection) return selection.start
+        if (caret.offset > 0) return { lineId: caret.lineId, offset: moveTextOffset(text, caret.offset, 'backward', unit) }
+        return caret.lineId > 0 ? { lineId: caret.lineId - 1, offset: this.lines[caret.lineId - 1].content.length } : caret
+      case 'ArrowRight':
+        if (selection) return selection.end
+        if (caret.offset < text.length) return { lineId: caret.lineId, offset: moveTextOffset(text, caret.offset, 'forward', unit) }
+        return caret.lineId < this.lines.length - 1 ? { lineId: caret.lineId + 1, offset: 0 } : caret
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        const lineId = caret.lineId + (e.key === 'ArrowUp' ? -1 : 1)
+        const lineText = this.lines[lineId]?.content
+        if (lineText === undefined) return caret
+        return { lineId, offset: snapToGraphemeBoundary(lineText, Math.min(caret.offset, lineText.length), 'backward') }
+      }
+      case 'Home':
+        return e.ctrlKey ? { lineId: 0, offset: 0 } : { lineId: caret.lineId, offset: 0 }
+      default: {
+        const lineId = e.ctrlKey ? this.lines.length - 1 : caret.lineId
+        return { lineId, offset: this.lines[lineId].content.length }
+      }
+    }
+  }
+
+  /**
+   * 获取键盘选区（按文本顺序排列的起点和终点），没有选区时返回 null
+   */
+  private getKeyboardSelection(): { start: TextPosition; end: TextPosition } | null {
+    const { keyboardAnchor: anchor, keyboardCaret: caret } = this
+    if (!anchor || !caret) return null
+    const order = compareTextPositions(anchor, caret)
+    if (order === 0) return null
+    return order < 0 ? { start: anchor, end: caret } : { start: caret, end: anchor }
+  }
+
+  /**
+   * 用键盘选区创建标注，与鼠标选择文本后的流程相同（会执行 annotationValidator）
+   * 不指定类型时打开编辑层（快速标注模式下使用当前类型）；指定类型时直接确认（仍会校验属性并执行 annotationConfirmValidator），未通过时保留编辑层以便修改
+   */
+  private createAnnotationFromKeyboard(type?: string) {
+    const selection = this.getKeyboardSelection()
+    const range = selection && this.createRangeFromPositions(selection.start, selection.end)
+    if (!selection || !range) return
+
+    const previousAnnotations = this.annotations
+    this.savedRange = range
+    this.handleTextSelection(type)
+    // 选中的文本没有通过验证时保留选区
+    if (this.annotations === previousAnnotations && this.functionMode !== FunctionMode.CREATING_ANNOTATION) return
+
+    // 选区交给编辑层处理（与鼠标选择一样保留浏览器选区，确认或取消时清除）
+    this.hasKeyboardSelection = false
+    this.keyboardAnchor = null
+    this.keyboardCaret = selection.end
+    if (this.functionMode === FunctionMode.CREATING_ANNOTATION) {
+      this.updateComplete.then(() => this.focusPanelControl())
+    }
+  }
+
+  /**
+   * 获取光标所在的标注（只考虑当前显示的标注，嵌套时取范围最小的一个）
+   */
+  private getAnnotationAtKeyboardCaret(): AnnotationItem | null {
+    const caret = this.keyboardCaret
+    if (!caret) return null
+
+    let result: AnnotationItem | null = null
+    let resultLength = Infinity
+    for (const annotation of this.displayedAnnotations) {
+      const containsCaret = getAnnotationRanges(annotation).some(
+        range =>
+          compareTextPositions({ lineId: range.lineId, offset: range.start }, caret) <= 0 &&
+          compareTextPositions(caret, { lineId: getEndLineId(range), offset: range.end }) <= 0
+      )
+      if (containsCaret && annotation.content.length < resultLength) {
+        result = annotation
+        resultLength = annotation.content.length
+      }
+    }
+    return result
+  }
+
+  /**
+   * 将文本位置转换为 DOM 中的文本节点和偏移量（段落不在可视区域内时返回 null）
+   */
+  private getDomPosition(position: TextPosition): { node: Node; offset: number } | null {
+    const lineContentElement = this.virtualListLayer?.querySelector(`.line[data-line-id="${position.lineId}"] .line-content`)
+    if (!lineContentElement) return null
+
+    const walker = document.createTreeWalker(lineContentElement, NodeFilter.SHOW_TEXT, {
+      acceptNode: node => {
+        // 跳过标注描述文本
+        const parent = node.parentElement
+        if (parent?.classList.contains('line-highlight-desc')) {
+          return NodeFilter.FILTER_REJECT
+        }
+        return NodeFilter.FILTER_ACCEPT
+      }
+    })
+
+    let currentOffset = 0
+    let node: Node | null
+    while ((node = walker.nextNode())) {
+      const nodeLength = node.textContent?.length || 0
+      if (position.offset <= currentOffset + nodeLength) {
+        return { node, offset: position.offset - currentOffset }
+      }
+      currentOffset += nodeLength
+    }
+    // 空段落
+    return { node: lineContentElement, offset: lineContentElement.childNodes.length }
+  }
+
+  /**
+   * 根据两个文本位置创建 Range，任一位置所在的段落不在可视区域内时返回 null
+   */
+  private createRangeFromPositions(start: TextPosition, end: TextPosition): Range | null {
+    const startPosition = this.getDomPosition(start)
+    const endPosition = this.getDomPosition(end)
+    if (!startPosition || !endPosition) return null
+
+    const range = document.createRange()
+    range.setStart(startPosition.node, startPosition.offset)
+    range.setEnd(endPosition.node, endPosition.offset)
+    return range
+  }
+
+  /**
+   * 获取光标在视口中的位置（光标所在段落不在可视区域内时返回 null）
+   */
+  private getKeyboardCaretClientRect(caret: TextPosition): DOMRect | null {
+    const range = this.createRangeFromPositions(caret, caret)
+    if (!range) return null
+    const rect = range.getClientRects()[0]
+    if (rect && rect.height > 0) return rect
+    // 空段落或位于元素边界时，折叠的 Range 可能没有尺寸，使用段落文本区域的左上角
+    const lineContentElement = this.virtualListLayer.querySelector(`.line[data-line-id="${caret.lineId}"] .line-content`)
+    if (!lineContentElement) return null
+    const lineContentRect = lineContentElement.getBoundingClientRect()
+    return new DOMRect(lineContentRect.left, lineContentRect.top, 0, lineContentRect.height)
+  }
+
+  private scheduleMeasureKeyboardCaret() {
+    this.keyboardCaretTimer && cancelAnimationFrame(this.keyboardCaretTimer)
+    this.keyboardCaretTimer = requestAnimationFrame(() => this.measureKeyboardCaret())
+  }
+
+  /**
+   * 测量光标位置并同步键盘选区到浏览器选区；光标移动后滚动到光标所在位置
+   */
+  private measureKeyboardCaret() {
+    // 文本内容变化后，光标可能超出段落范围
+    const caret = this.keyboardCaret
+    if (caret && !this.lines[caret.lineId]) {
+      this.keyboardCaret = null
+      this.keyboardAnchor = null
+      this.keyboardCaretBox = null
+      return
+    }
+    if (caret && caret.offset > this.lines[caret.lineId].content.length) {
+      this.keyboardCaret = { lineId: caret.lineId, offset: this.lines[caret.lineId].content.length }
+      return
+    }
+
+    const caretRect = caret && this.scrollContainer ? this.getKeyboardCaretClientRect(caret) : null
+    if (caret && this.revealKeyboardCaret) {
+      this.revealKeyboardCaret = false
+      if (!caretRect) {
+        // 光标所在段落不在可视区域内，先滚动到该段落，渲染后重新测量
+        this.virtualCore?.scrollToIndex(caret.lineId, {
+          onScroll: top => {
+            this.scrollContainer.scrollTop = Math.max(0, top)
+          }
+        })
+        return
+      }
+      const containerRect = this.scrollContainer.getBoundingClientRect()
+      if (caretRect.top < containerRect.top) {
+        this.scrollContainer.scrollTop -= containerRect.top - caretRect.top
+        this.scheduleMeasureKeyboardCaret()
+        return
+      }
+      if (caretRect.bottom > containerRect.bottom) {
+        this.scrollContainer.scrollTop += caretRect.bottom - containerRect.bottom
+        this.scheduleMeasureKeyboardCaret()
+        return
+      }
+    }
+
+    const wrapperRect = this.contentWrapper?.getBoundingClientRect()
+    this.keyboardCaretBox =
+      caretRect && wrapperRect ? { x: caretRect.left - wrapperRect.left, y: caretRect.top - wrapperRect.top, height: caretRect.height } : null
+
+    // 选区使用浏览器原生的选区显示
+    const selection = this.getKeyboardSelection()
+    const range = selection && this.createRangeFromPositions(selection.start, selection.end)
+    const nativeSelection = getShadowDOMSelection(this.shadowRoot) ?? getSelection()
+    if (range) {
+      nativeSelection?.removeAllRanges()
+      nativeSelection?.addRange(range)
+      this.hasKeyboardSelection = true
+    } else if (this.hasKeyboardSelection && !selection) {
+      nativeSelection?.removeAllRanges()
+      this.hasKeyboardSelection = false
+    }
+  }
+
+  /**
+   * 点击文本时将键盘光标移动到点击位置
+   */
+  private setKeyboardCaretFromSelection() {
+    const range = getShadowDOMSelection(this.shadowRoot)?.getRangeAt(0)
+    const line = range ? this.findLineElement(range.startContainer) : null
+    if (!range || !line) return
+    const offset = this.getOffsetInLineElement(line.element, range.startContainer, range.startOffset)
+    this.keyboardAnchor = null
+    this.hasKeyboardSelection = false
+    this.keyboardCaret = { lineId: line.lineId, offset: snapToGraphemeBoundary(this.lines[line.lineId].content, offset, 'backward') }
+  }
+
+  /**
+   * 将焦点移动到编辑层或事件面板中的第一个控件，没有打开时返回 false
+   */
+  private focusPanelControl(): boolean {
+    const control = this.shadowRoot?.querySelector<HTMLElement>(':is(.edit-layer, .event-panel) :is(select, input, textarea, button)')
+    control?.focus()
+    return !!control
+  }
+
+  private renderKeyboardCaret() {
+    if (!this.keyboardCaret || !this.keyboardCaretBox) return null
+    return html`<div
+      class="keyboard-caret"
+      style=${styleMap({
+        left: `${this.keyboardCaretBox.x}px`,
+        top: `${this.keyboardCaretBox.y}px`,
+        height: `${this.keyboardCaretBox.height}px`
+      })}
+    ></div>`
+  }
+
+  willUpdate() {
+    // 焦点在输入框、下拉框等表单控件中时不接管焦点，避免更新时抢走段落文本输入框、标签搜索框等的焦点
+    const activeElement = this.shadowRoot?.activeElement
+    this.hadInnerFocus = !!activeElement && !isFormControl(activeElement)
+  }
+
+  /**
+   * -------------------------------------------------- 快速标注 --------------------------------------------------
+   */
+
+  // 快速标注实际使用的类型（quickLabelType 为空或不在 annotationType 中时使用第一个类型），未开启快速标注时为 null
+  private get activeQuickLabelType(): string | null {
+    if (!this.quickLabelEnabled || this.annotationType.length === 0) return null
+    return this.annotationType.some(type => type.type === this.quickLabelType) ? this.quickLabelType : this.annotationType[0].type
+  }
+
+  // 切换 -- 快速标注的当前类型，并派发 quick-label-change 事件
+  private setQuickLabelType(type: string) {
+    if (type === this.activeQuickLabelType) return
+    this.quickLabelType = type
+    this.dispatchEvent(
+      new CustomEvent<QuickLabelChangeEventDetail>('quick-label-change', {
+        detail: { type },
+        bubbles: true,
+        composed: true
+      })
+    )
+  }
+
+  // 渲染 -- 快速标注工具栏（当前类型高亮显示，前 9 个类型标有切换快捷键）
+  private renderQuickLabelBar() {
+    const activeType = this.editingEnabled ? this.activeQuickLabelType : null
+    if (activeType === null) return null
+
+    return html`<div class="quick-label-bar">
+      <span class="quick-label-title">快速标注</span>
+      ${repeat(
+        this.annotationType,
+        type => type.type,
+        (type, index) => html`<span
+          class=${classMap({ 'label-chip': true, selected: type.type === activeType, editable: true })}
+          style=${styleMap({ '--label-color': resolveTypeColor(type.type, this.annotationType) || null })}
+          title=${index < 9 ? `快捷键 ${index + 1}` : ''}
+          @click=${() => this.setQuickLabelType(type.type)}
+          >${index < 9 ? html`<span class="quick-label-key">${index + 1}</span>` : null}${type.type}</span
+        >`
+      )}
+    </div>`
+  }
+
+  updated(changedProperties: Map<string | number | symbol, unknown>) {
+    super.updated(changedProperties)
+    // 当 content 属性从外部改变时，更新 lines
+    if (changedProperties.has('content')) {
+      this.updateLines()
+      this.hasInitializedLines = true
+      // 未经撤销历史记录的内容替换，清空历史，避免撤销时旧文本与新文本的标注组合在一起
+      if (this.content !== this.historyContent) {
+        this.clearHistory()
+      }
+    }
+
+    // 当编辑状态关闭时，强制 functionMode 为 DEFAULT 并清理相关状态
+    if (changedProperties.has('editingEnabled')) {
+      if (!this.editingEnabled) {
+        this.functionMode = FunctionMode.DEFAULT
+        this.resetToDefaultMode()
+      }
+    }
+
+    // 关闭直接修改文本时，放弃正在进行的修改
+    if (changedProperties.has('textEditingEnabled') && !this.textEditingEnabled && this.functionMode === FunctionMode.EDITING_TEXT) {
+      this.resetToDefaultMode()
+    }
+
+    // 如果 editingEnabled 为 false，强制保持 DEFAULT 模式
+    if (!this.editingEnabled && this.functionMode !== FunctionMode.DEFAULT) {
+      this.functionMode = FunctionMode.DEFAULT
+      this.resetToDefaultMode()
+    }
+
+    // 当 annotations 或 lines 变化时，更新分组（类型过滤变化会改变显示的标注，同样需要更新）
+    if (
+      changedProperties.has('annotations') ||
+      changedProperties.has('lines') ||
+      changedProperties.has('typeFilter') ||
+      changedProperties.has('annotationType')
+    ) {
+      this.updateGroupedAnnotations()
+    }
+
+    // 当标注、关系、事件或分类标签变化时，派发数据变化事件
+    if (
+      changedProperties.has('annotations') ||
+      changedProperties.has('relationships') ||
+      changedProperties.has('events') ||
+      changedProperties.has('documentLabels') ||
+      changedProperties.has('lineLabels')
+    ) {
+      this.dispatchDataChangeEvent()
+    }
+
+    if (
+      changedProperties.has('visibleStartIndex') ||
+      changedProperties.has('visibleEndIndex') ||
+      changedProperties.has('annotations') ||
+      changedProperties.has('relationships') ||
+      changedProperties.has('events') ||
+      changedProperties.has('eventDraft') ||
+      changedProperties.has('typeFilter')
+    ) {
+      this.scheduleMeasureRelationships()
+    }
+
+    // 当可见范围变化时，测量并更新高度（不定高虚拟列表核心逻辑）
+    if (changedProperties.has('visibleStartIndex') || changedProperties.has('visibleEndIndex')) {
+      // 使用 requestAnimationFrame 确保 DOM 已渲染
+      requestAnimationFrame(() => {
+        this.measureAndUpdateHeights()
+      })
+    }
+
+    // 键盘光标、选区或其所在的文本变化时，重新测量光标位置
+    if (
+      this.keyboardCaret &&
+      (changedProperties.has('keyboardCaret') ||
+        changedProperties.has('keyboardAnchor') ||
+        changedProperties.has('visibleStartIndex') ||
+        changedProperties.has('visibleEndIndex') ||
+        changedProperties.has('annotations') ||
+        changedProperties.has('lines') ||
+        changedProperties.has('typeFilter'))
+    ) {
+      this.scheduleMeasureKeyboardCaret()
+    }
+
+    // 获得焦点的按钮（如右键菜单项）被移除后，焦点移动到新打开的编辑层、事件面板或组件本身，以便继续使用键盘操作
+    if (this.hadInnerFocus && !this.matches(':focus-within') && !this.focusPanelControl()) {
+      this.focus({ preventScroll: true })
+    }
+  }
+
+  /**
+   * 派发数据变化事件
+   */
+  private dispatchDataChangeEvent() {
+    this.dispatchEvent(
+      new CustomEvent<DataChangeEventDetail>('data-change', {
+        detail: {
+          annotations: this.exportAnnotations(),
+          relationships: this.relationships,
+          events: this.events,
+          documentLabels: this.documentLabels,
+          lineLabels: this.lineLabels
+        },
+        bubbles: true,
+        composed: true
+      })
+    )
+  }
+
+  /**
+   * 派发错误事件
+   * 用于向外部暴露组件内部的错误信息，让外部用户自行处理错误提示
+   * @param message 错误消息
+   * @param code 错误代码（可选）
+   * @param data 附加数据（可选）
+   */
+  dispatchError(message: string, code?: string, data?: any) {
+    this.dispatchEvent(
+      new CustomEvent<ErrorEventDetail>('error', {
+        detail: {
+          message,
+          code,
+          data
+        },
+        bubbles: true,
+        composed: true
+      })
+    )
+  }
+
+  firstUpdated() {
+    if (!this.scrollContainer) return
+
+    this.scrollContainer.addEventListener('scroll', () => this.handleScroll())
+    // 确保在 updateVisibleRange 之前设置 containerHeight，这样 getTotalHeight 才能正确计算底部额外空间
+    const clientHeight = this.scrollContainer.clientHeight
+    if (clientHeight > 0 && clientHeight !== this.containerHeight) {
+      this.containerHeight = clientHeight
+    }
+
+    // 初始化 VirtualCore
+    this.initVirtualCore()
+
+    // 监听文本选择事件（只处理左键）
+    this.scrollContainer.addEventListener('mousedown', (e: MouseEvent) => {
+      // 创建/编辑标注时按住 Shift 选择文本，为当前标注追加片段
+      const isFragmentSelection = this.functionMode === FunctionMode.CREATING_ANNOTATION && e.shiftKey && !!this.selectedTextInfo
+      // 如果不在默认模式，不允许文本选择
+      if (this.functionMode !== FunctionMode.DEFAULT && !isFragmentSelection) {
+        return
+      }
+      // 只处理左键（button === 0），忽略右键和中键
+      if (e.button === 0) {
+        if (isFragmentSelection) {
+          // 清除已有选区，避免 Shift 点击扩展上一次的选区
+          getShadowDOMSelection(this.shadowRoot)?.removeAllRanges()
+        } else {
+          // 鼠标选择文本时放弃键盘选区
+          this.keyboardAnchor = null
+          this.hasKeyboardSelection = false
+        }
+        this.isSelectingFragment = isFragmentSelection
+        this.isSelectingText = true
+        this.mouseDownPosition = { x: e.clientX, y: e.clientY }
+      }
+    })
+
+    // 监听 mouseup 事件，获取选中的文本（只处理左键）
+    this.scrollContainer.addEventListener('mouseup', (e: MouseEvent) => {
+      // 如果不在默认模式，不允许文本选择（追加片段除外）
+      if (this.functionMode !== FunctionMode.DEFAULT && !this.isSelectingFragment) {
+        return
+      }
+      // 只处理左键（button === 0）
+      if (e.button !== 0) {
+        return
+      }
+
+      // 检查鼠标是否移动过（即是否真的选择了文本）
+      const mouseMoved = Math.abs(e.clientX - this.mouseDownPosition.x) > 2 || Math.abs(e.clientY - this.mouseDownPosition.y) > 2
+
+      if (!mouseMoved) {
+        // 如果鼠标没有移动，只是点击，不处理选择，只移动键盘光标
+        if (!this.isSelectingFragment && this.editingEnabled) {
+          this.setKeyboardCaretFromSelection()
+        }
+        setTimeout(() => {
+          this.isSelectingText = false
+        }, 100)
+        return
+      }
+
+      // 直接获取选择
+      const selection = getShadowDOMSelection(this.shadowRoot)
+      if (selection && selection.rangeCount > 0) {
+        const range = selection.getRangeAt(0)
+        if (!range.collapsed && range.toString().trim()) {
+          // 标记刚刚完成文本选择，防止后续的 click 事件关闭编辑层
+          this.justSelectedText = true
+          if (this.isSelectingFragment) {
+            // 追加片段：保留原有 Range 用于定位编辑层
+            this.handleFragmentSelection(range.cloneRange())
+          } else {
+            // 保存 Range 并处理选择
+            this.savedRange = range.cloneRange()
+            // 快速标注模式下按住 Shift 选择时不直接确认，打开编辑层（已选中当前类型），以便继续按住 Shift 追加片段
+            const quickLabelType = this.activeQuickLabelType
+            this.handleTextSelection(e.shiftKey ? null : quickLabelType)
+            if (e.shiftKey && quickLabelType !== null && this.functionMode === FunctionMode.CREATING_ANNOTATION) {
+              this.selectedAnnotationType = quickLabelType
+              this.resetAttributeValuesForType()
+            }
+          }
+          // 在下一个事件循环中重置标志，确保 editLayer 已经渲染
+          setTimeout(() => {
+            this.justSelectedText = false
+          }, 0)
+        }
+      }
+
+      this.isSelectingText = false
+      this.isSelectingFragment = false
+    })
+
+    // 监听全局 mouseup 事件，确保即使鼠标在容器外松开也能重置状态
+    this.globalMouseUpHandler = () => {
+      if (this.isSelectingText) {
+        this.isSelectingText = false
+      }
+      this.isSelectingFragment = false
+    }
+    document.addEventListener('mouseup', this.globalMouseUpHandler)
+
+    // 监听容器大小变化
+    this.resizeObserver = new ResizeObserver(() => {
+      if (this.scrollContainer) {
+        this.measureLineHeight()
+        this.updateVisibleRange() // containerHeight 会在 updateVisibleRange 中更新
+        this.scheduleMeasureRelationships()
+        this.keyboardCaret && this.scheduleMeasureKeyboardCaret()
+      }
+    })
+    this.resizeObserver.observe(this.scrollContainer)
 
     this.measureLineHeight()
     this.updateVisibleRange()
@@ -648,14 +2055,22 @@ export class YsTextAnnotation extends LitElement {
           }
         }
 
+        // 关闭段落标签选择器（如果点击的不是选择器内的元素）
+        if (this.lineLabelPicker) {
+          const lineLabelPicker = this.shadowRoot?.querySelector('.line-label-picker') as HTMLElement
+          if (lineLabelPicker && !e.composedPath().includes(lineLabelPicker)) {
+            this.closeLineLabelPicker()
+          }
+        }
+
         // 关闭右键菜单
         if (this.functionMode === FunctionMode.CONTEXT_MENU_OPEN) {
           this.resetToDefaultMode()
           return
         }
 
-        // 关闭编辑层（如果点击的不是 edit-layer 内的元素）
-        if (this.functionMode === FunctionMode.CREATING_ANNOTATION) {
+        // 关闭编辑层（如果点击的不是 edit-layer 内的元素；按住 Shift 点击用于追加片段，不关闭）
+        if (this.functionMode === FunctionMode.CREATING_ANNOTATION && !e.shiftKey) {
           const editLayer = this.shadowRoot?.querySelector('.edit-layer') as HTMLElement
           if (editLayer) {
             // 使用 composedPath() 来正确检测 Shadow DOM 中的点击目标
@@ -782,6 +2197,10 @@ export class YsTextAnnotation extends LitElement {
       if (this.editLayerVisible && this.savedRange && !this.editingAnnotationId) {
         this.updateEditLayerPosition()
       }
+      // 滚动时关闭段落标签选择器
+      if (this.lineLabelPicker) {
+        this.closeLineLabelPicker()
+      }
       // 滚动时，如果处于右键菜单或创建关系模式，重置到默认模式
       if (this.functionMode === FunctionMode.CONTEXT_MENU_OPEN || this.functionMode === FunctionMode.CREATING_RELATIONSHIP) {
         this.resetToDefaultMode()
@@ -855,24 +2274,32 @@ export class YsTextAnnotation extends LitElement {
 
     if (!this.shadowRoot) {
       this.relationshipPaths = []
+      this.fragmentLinkPaths = []
+      this.eventPaths = []
       return
     }
 
+    this.fragmentLinkPaths = this.measureFragmentLinks()
+
     const paths: RelationshipPath[] = []
 
     // 默认颜色
     const defaultColor = 'var(--default-line-color)'
 
+    // 被类型过滤隐藏的标注不绘制关系
+    const displayedIds = new Set(this.displayedAnnotations.map(annotation => annotation.id))
+
     // 遍历所有关系
     for (const relationship of this.relationships) {
       const { id, startId, endId, type, color } = relationship
+      if (!displayedIds.has(startId) || !displayedIds.has(endId)) continue
       const pathColor = color || defaultColor
       // 使用 type 作为标签显示文本
       const labelText = type || ''
 
       // 查找起点和终点的 line-highlight 元素
-      const startElement = this.shadowRoot.querySelector(`[data-anno-id="anno-${startId}"]`) as HTMLElement
-      const endElement = this.shadowRoot.querySelector(`[data-anno-id="anno-${endId}"]`) as HTMLElement
+      const startElement = this.getAnnotationAnchorElements(startId)
+      const endElement = this.getAnnotationAnchorElements(endId)
 
       let startPos: { x: number; y: number } | null = null
       let endPos: { x: number; y: number } | null = null
@@ -946,6 +2373,7 @@ export class YsTextAnnotation extends LitElement {
         d: bezierResult.d,
         label: labelText,
         color: pathColor,
+        tooltip: this.getRelationshipTooltip(relationship),
         labelX: bezierResult.labelX,
         labelY: bezierResult.labelY,
         labelAngle: bezierResult.labelAngle,
@@ -955,6 +2383,74 @@ export class YsTextAnnotation extends LitElement {
     }
 
     this.relationshipPaths = paths
+    this.eventPaths = this.measureEventPaths(displayedIds)
+  }
+
+  /**
+   * 生成关系的悬停提示：类型、描述及属性值，各占一行
+   */
+  private getRelationshipTooltip(relationship: RelationshipItem): string {
+    const schemas = this.relationshipType.find(type => type.type === relationship.type)?.attributes || []
+    return [relationship.type, relationship.description, formatAttributes(schemas, relationship.attributes)].filter(Boolean).join('\n')
+  }
+
+  /**
+   * 获取标注用于连线的锚点元素
+   * 标注可能被拆分为多个片段（跨行、嵌套/重叠模式下的分段、非连续标注的各个片段），
+   * 取第一个已渲染的标注片段在其第一个已渲染行内的所有元素作为整体，使关系始终连接到同一个节点
+   * @param part 指定非连续标注的片段序号，缺省时取第一个已渲染的片段
+   * @param root 查找范围（默认为整个组件，导出快照时为离屏渲染的容器）
+   * @returns 锚点元素数组，标注未渲染时返回 null
+   */
+  private getAnnotationAnchorElements(annotationId: string, part?: number, root: ParentNode | null = this.shadowRoot): HTMLElement[] | null {
+    if (!root) return null
+
+    let elements = Array.from(root.querySelectorAll<HTMLElement>(`[data-anno-id="anno-${annotationId}"]`))
+    // 嵌套/重叠模式下以边框元素表示标注的完整范围
+    const borderElements = elements.filter(element => element.classList.contains('line-highlight-border'))
+    if (borderElements.length > 0) {
+      elements = borderElements
+    }
+    if (part !== undefined) {
+      elements = elements.filter(element => element.dataset.annoPart === `${part}`)
+    }
+    if (elements.length === 0) return null
+
+    const firstLine = elements[0].closest('.line')
+    const firstPart = elements[0].dataset.annoPart
+    return elements.filter(element => element.closest('.line') === firstLine && element.dataset.annoPart === firstPart)
+  }
+
+  /**
+   * 计算非连续标注相邻片段之间的连接线（从前一片段顶部拱起连接到后一片段顶部）
+   * 只有相邻两个片段都已渲染时才绘制
+   */
+  private measureFragmentLinks(): Array<{ id: string; d: string; color: string }> {
+    const links: Array<{ id: string; d: string; color: string }> = []
+
+    for (const annotation of this.displayedAnnotations) {
+      const ranges = getAnnotationRanges(annotation)
+      if (ranges.length < 2) continue
+      // 整体范围不在可视区域内时跳过
+      if (getEndLineId(annotation) < this.visibleStartIndex || annotation.lineId > this.visibleEndIndex) continue
+
+      for (let part = 0; part < ranges.length - 1; part++) {
+        const fromElements = this.getAnnotationAnchorElements(annotation.id, part)
+        const toElements = this.getAnnotationAnchorElements(annotation.id, part + 1)
+        if (!fromElements || !toElements) continue
+
+        const from = calculateAnnotationKeyPoints(fromElements, this.virtualListLayer).topCenter
+        const to = calculateAnnotationKeyPoints(toElements, this.virtualListLayer).topCenter
+        const controlY = Math.min(from.y, to.y) - 12
+        links.push({
+          id: `${annotation.id}-${part}`,
+          d: `M ${from.x} ${from.y} C ${from.x} ${controlY}, ${to.x} ${controlY}, ${to.x} ${to.y}`,
+          color: annotation.color || 'var(--default-node-color)'
+        })
+      }
+    }
+
+    return links
   }
 
   private scheduleMeasureRelationships() {
@@ -982,8 +2478,9 @@ export class YsTextAnnotation extends LitElement {
 
   /**
    * 处理文本选择事件
+   * @param confirmType 直接以该类型确认标注，不需要在编辑层中选择类型（默认为快速标注模式的当前类型，未开启快速标注时打开编辑层）
    */
-  private handleTextSelection() {
+  private handleTextSelection(confirmType: string | null = this.activeQuickLabelType) {
     // 如果不在默认模式，不允许文本选择
     if (this.functionMode !== FunctionMode.DEFAULT) {
       return
@@ -1000,11 +2497,94 @@ export class YsTextAnnotation extends LitElement {
       return
     }
 
-    const range = this.savedRange
+    const selectedTextInfo = this.getSelectedTextInfo(this.savedRange)
+    if (!selectedTextInfo) return
+
+    // 检查选中的文本是否与已标注的内容重叠
+    // 开启 allowOverlap 时允许嵌套和部分重叠
+    if (!this.allowOverlap && this.isOverlappingAnnotations(selectedTextInfo, this.annotations)) {
+      // 如果与已标注内容重叠，不显示编辑层
+      return
+    }
+
+    // 再次检查 editingEnabled，防止在异步回调中状态已改变
+    if (!this.editingEnabled) {
+      return
+    }
+
+    // 如果设置了标注验证器，调用它进行验证
+    if (!this.validateSelectedText(selectedTextInfo)) {
+      return
+    }
+
+    // 保存选中的文本信息
+    this.selectedTextInfo = selectedTextInfo
+    // 更新编辑层位置
+    this.updateEditLayerPosition()
+    // 重置编辑层状态
+    this.editInputValue = ''
+    this.editAttributeValues = {}
+    this.selectedAnnotationType = ''
+    // 切换到创建标注模式
+    this.functionMode = FunctionMode.CREATING_ANNOTATION
+
+    // 直接确认：属性校验或确认验证未通过时保留编辑层（已选中该类型），以便补充属性或取消
+    if (confirmType !== null) {
+      this.selectedAnnotationType = confirmType
+      this.resetAttributeValuesForType()
+      this.handleConfirmEdit()
+    }
+  }
+
+  /**
+   * 处理追加片段的文本选择（创建/编辑标注时按住 Shift 选择文本）
+   * 追加的片段不能与当前标注的其他片段重叠，未开启 allowOverlap 时也不能与其他标注重叠
+   */
+  private handleFragmentSelection(range: Range) {
+    if (this.functionMode !== FunctionMode.CREATING_ANNOTATION || !this.editingEnabled || !this.selectedTextInfo) {
+      return
+    }
+
+    const fragment = this.getSelectedTextInfo(range)
+    if (!fragment) return
+
+    // 与当前标注已有片段重叠时忽略
+    if (this.selectionRanges.some(existing => rangesOverlap(fragment, existing, true))) {
+      return
+    }
+
+    // 编辑已有标注时，不与该标注自身比较
+    const otherAnnotations = this.editingAnnotationId ? this.annotations.filter(ann => ann.id !== this.editingAnnotationId) : this.annotations
+    if (!this.allowOverlap && this.isOverlappingAnnotations(fragment, otherAnnotations)) {
+      return
+    }
+
+    if (!this.validateSelectedText(fragment)) {
+      return
+    }
+
+    this.selectionFragments = [...this.selectionFragments, fragment]
+  }
+
+  /**
+   * 当前标注的所有片段（创建时为选中文本及追加的片段，编辑时为标注已有片段及追加的片段）
+   */
+  private get selectionRanges(): SelectedTextInfo[] {
+    if (!this.selectedTextInfo) return []
 
+    const editingAnnotation = this.editingAnnotationId ? this.annotations.find(ann => ann.id === this.editingAnnotationId) : null
+    const baseRanges: SelectedTextInfo[] = editingAnnotation ? getAnnotationRanges(editingAnnotation) : [this.selectedTextInfo]
+    return [...baseRanges, ...this.selectionFragments]
+  }
+
+  /**
+   * 根据 Range 计算选中的文本信息
+   * @returns 选中的文本信息，选区无效（不在虚拟列表层内、全是空白等）时返回 null
+   */
+  private getSelectedTextInfo(range: Range): SelectedTextInfo | null {
     // 检查选择是否折叠（没有选中文本）
     if (range.collapsed) {
-      return
+      return null
     }
 
     const rawSelectedText = range.toString()
@@ -1012,7 +2592,7 @@ export class YsTextAnnotation extends LitElement {
 
     // 如果没有选中文本，隐藏编辑图层
     if (!selectedText) {
-      return
+      return null
     }
 
     const virtualListLayerRect = this.virtualListLayer.getBoundingClientRect()
@@ -1025,112 +2605,126 @@ export class YsTextAnnotation extends LitElement {
       rangeRect.top < virtualListLayerRect.top ||
       rangeRect.bottom > virtualListLayerRect.bottom
     ) {
-      return
-    }
-
-    // 找到包含选中文本的 line 元素
-    // commonAncestorContainer 可能是文本节点，需要找到元素节点
-    let node: Node | null = range.commonAncestorContainer
-    // 如果是文本节点，获取其父元素
-    if (node.nodeType === Node.TEXT_NODE) {
-      node = node.parentElement
-    }
-    let lineElement: HTMLElement | null = node as HTMLElement
-    while (lineElement && (!lineElement.classList || !lineElement.classList.contains('line'))) {
-      lineElement = lineElement.parentElement
+      return null
     }
-    if (!lineElement) return
-
-    // 找到 line-content 元素（实际包含文本内容的元素）
-    const lineContentElement = lineElement.querySelector('.line-content') as HTMLElement
-    if (!lineContentElement) return
-
-    // 找到 line 在虚拟列表中的索引
-    const lineParent = lineElement.parentElement
-    if (!lineParent) return
 
-    const lineIndexInView = Array.from(lineParent.children).indexOf(lineElement)
-    const actualLineIndex = this.visibleStartIndex + lineIndexInView
-
-    // 获取 line 的原始文本内容
-    const lineContent = this.lines[actualLineIndex]?.content || ''
-    if (!lineContent) return
-
-    // 计算选中文本在 line-content 文本中的位置
-    // 由于 line-content 中可能包含标注元素，我们需要找到选中文本在原始 lineContent 中的位置
-    let startOffset = getTextOffsetInLine(lineContentElement, range.startContainer, range.startOffset)
-    let endOffset = getTextOffsetInLine(lineContentElement, range.endContainer, range.endOffset)
+    // 找到选区起点和终点所在的 line 元素（跨行选择时二者不同）
+    const startLine = this.findLineElement(range.startContainer)
+    const endLine = this.findLineElement(range.endContainer)
+    if (!startLine || !endLine) return null
+
+    // 计算选区起点和终点在各自行原始文本中的位置
+    // 由于 line-content 中可能包含标注元素，需要换算回原始 lineContent 中的偏移量
+    // 起点向前、终点向后对齐到字素簇边界，避免拆开代理对或组合字符
+    const rawStartOffset = snapToGraphemeBoundary(
+      this.lines[startLine.lineId].content,
+      this.getOffsetInLineElement(startLine.element, range.startContainer, range.startOffset),
+      'backward'
+    )
+    const rawEndOffset = snapToGraphemeBoundary(
+      this.lines[endLine.lineId].content,
+      this.getOffsetInLineElement(endLine.element, range.endContainer, range.endOffset),
+      'forward'
+    )
 
-    // 如果选中的文本经过 trim，需要调整 start 和 end 来匹配 trim 后的内容
-    // 找到 trim 后的文本在原始文本中的实际位置
-    if (rawSelectedText !== selectedText) {
-      // 获取原始范围对应的文本
-      const rawRangeText = lineContent.substring(startOffset, endOffset)
-      // 计算前导空格数
-      const leadingSpaces = rawRangeText.length - rawRangeText.trimStart().length
-      // 计算尾部空格数
-      const trailingSpaces = rawRangeText.length - rawRangeText.trimEnd().length
+    // 去掉首尾空白（跨行选择时可能以换行开头或结尾），得到实际的标注范围
+    const trimmedRange = trimTextRange(this.lines, {
+      lineId: startLine.lineId,
+      start: rawStartOffset,
+      endLineId: endLine.lineId,
+      end: rawEndOffset
+    })
+    if (!trimmedRange) return null
 
-      // 调整偏移量：去掉前导和尾部空格
-      startOffset = startOffset + leadingSpaces
-      endOffset = endOffset - trailingSpaces
-    }
+    const { lineId: actualLineIndex, start: startOffset, endLineId: actualEndLineIndex, end: endOffset } = trimmedRange
 
-    // 保存选中的文本信息
+    // 保存选中的文本信息（跨行时 content 以 \n 连接各行文本）
     const selectedTextInfo: SelectedTextInfo = {
       lineId: actualLineIndex,
       start: startOffset,
       end: endOffset,
-      content: selectedText
+      content: getTextInRange(this.lines, actualLineIndex, startOffset, actualEndLineIndex, endOffset)
+    }
+    if (actualEndLineIndex !== actualLineIndex) {
+      selectedTextInfo.endLineId = actualEndLineIndex
     }
+    return selectedTextInfo
+  }
 
-    // 检查选中的文本是否与已标注的内容重叠
-    if (hasOverlapWithAnnotations(actualLineIndex, startOffset, endOffset, this.annotations)) {
-      // 如果与已标注内容重叠，不显示编辑层
-      return
+  /**
+   * 检查选中的文本是否与指定标注重叠
+   */
+  private isOverlappingAnnotations(selectedTextInfo: SelectedTextInfo, annotations: AnnotationItem[]): boolean {
+    const { lineId, start, end } = selectedTextInfo
+    return hasOverlapWithAnnotations(lineId, start, end, annotations, getEndLineId(selectedTextInfo))
+  }
+
+  /**
+   * 使用标注验证器验证选中的文本
+   * @returns 验证是否通过（未设置验证器时视为通过）
+   */
+  private validateSelectedText(selectedTextInfo: SelectedTextInfo): boolean {
+    if (!this.annotationValidator) return true
+
+    try {
+      const validationResult = this.annotationValidator(selectedTextInfo, this.annotations)
+      // 如果验证失败，阻止创建标注
+      if (!validationResult.valid) {
+        // 派发错误事件，让外部处理错误提示
+        this.dispatchError(validationResult.message || '标注验证失败', 'ANNOTATION_VALIDATION_FAILED', {
+          selectedText: selectedTextInfo
+        })
+        return false
+      }
+    } catch (error) {
+      // 如果验证器抛出错误，派发错误事件并阻止创建
+      this.dispatchError('标注验证器执行失败', 'VALIDATOR_ERROR', error)
+      return false
     }
+    return true
+  }
 
-    // 再次检查 editingEnabled，防止在异步回调中状态已改变
-    if (!this.editingEnabled) {
-      return
+  /**
+   * 查找节点所在的 line 元素及其行号
+   */
+  private findLineElement(node: Node | null): { element: HTMLElement; lineId: number } | null {
+    let element: HTMLElement | null = node && node.nodeType === Node.TEXT_NODE ? node.parentElement : (node as HTMLElement | null)
+    while (element && (!element.classList || !element.classList.contains('line'))) {
+      element = element.parentElement
     }
+    if (!element) return null
 
-    // 如果设置了标注验证器，调用它进行验证
-    if (this.annotationValidator) {
-      try {
-        const validationResult = this.annotationValidator(selectedTextInfo, this.annotations)
-        // 如果验证失败，阻止创建标注
-        if (!validationResult.valid) {
-          // 派发错误事件，让外部处理错误提示
-          this.dispatchError(validationResult.message || '标注验证失败', 'ANNOTATION_VALIDATION_FAILED', {
-            selectedText: selectedTextInfo
-          })
-          return
-        }
-      } catch (error) {
-        // 如果验证器抛出错误，派发错误事件并阻止创建
-        this.dispatchError('标注验证器执行失败', 'VALIDATOR_ERROR', error)
-        return
-      }
+    const lineId = Number(element.dataset.lineId)
+    if (Number.isNaN(lineId) || !this.lines[lineId]) return null
+    return { element, lineId }
+  }
+
+  /**
+   * 计算选区边界在行原始文本中的偏移量
+   * 边界落在行号等 line-content 之外的区域时，按其位于文本之前或之后分别取行首或行尾
+   */
+  private getOffsetInLineElement(lineElement: HTMLElement, container: Node, offset: number): number {
+    const lineContentElement = lineElement.querySelector('.line-content') as HTMLElement
+    if (!lineContentElement) return 0
+
+    if (lineContentElement.contains(container)) {
+      return getTextOffsetInLine(lineContentElement, container, offset)
     }
 
-    // 保存选中的文本信息
-    this.selectedTextInfo = selectedTextInfo
-    // 更新编辑层位置
-    this.updateEditLayerPosition()
-    // 重置编辑层状态
-    this.editInputValue = ''
-    this.selectedAnnotationType = ''
-    // 切换到创建标注模式
-    this.functionMode = FunctionMode.CREATING_ANNOTATION
+    const lineLength = this.lines[Number(lineElement.dataset.lineId)]?.content.length ?? 0
+    const position = lineContentElement.compareDocumentPosition(container)
+    return position & Node.DOCUMENT_POSITION_FOLLOWING ? lineLength : 0
   }
 
   /**
    * 根据标注信息创建 Range 对象（用于编辑标注时定位）
+   * 跨行标注只定位到起始行内的部分，非连续标注只定位到第一个片段
    */
-  private createRangeFromAnnotation(annotation: AnnotationItem): Range | null {
+  private createRangeFromAnnotation(item: AnnotationItem): Range | null {
     if (!this.shadowRoot) return null
 
+    const annotation = getAnnotationRanges(item)[0]
+
     // 检查标注所在的行是否在可视区域内
     if (annotation.lineId < this.visibleStartIndex || annotation.lineId > this.visibleEndIndex) {
       // 如果不在可视区域内，返回 null，将使用右键菜单位置作为回退
@@ -1150,6 +2744,9 @@ export class YsTextAnnotation extends LitElement {
     // 创建 Range 对象
     const range = document.createRange()
 
+    // 跨行标注在起始行内延伸到行尾
+    const lineEnd = getEndLineId(annotation) !== annotation.lineId ? (this.lines[annotation.lineId]?.content.length ?? 0) : annotation.end
+
     // 找到标注对应的文本节点和偏移量
     // 由于 line-content 中可能包含标注元素，需要遍历文本节点来计算正确的偏移量
     const walker = document.createTreeWalker(lineContentElement, NodeFilter.SHOW_TEXT, {
@@ -1181,9 +2778,9 @@ export class YsTextAnnotation extends LitElement {
       }
 
       // 设置 Range 的结束位置
-      if (currentOffset <= annotation.end && annotation.end <= nodeEndOffset) {
+      if (currentOffset <= lineEnd && lineEnd <= nodeEndOffset) {
         endNode = node
-        endOffset = annotation.end - currentOffset
+        endOffset = lineEnd - currentOffset
         break
       }
 
@@ -1233,8 +2830,12 @@ export class YsTextAnnotation extends LitElement {
    * 处理关系右键菜单
    */
   private handleRelationshipContextMenu(e: MouseEvent, relationshipId: string) {
-    // 如果正在创建关系，不允许右键菜单
-    if (this.functionMode === FunctionMode.CREATING_RELATIONSHIP) {
+    // 如果正在创建关系、事件或修改文本，不允许右键菜单
+    if (
+      this.functionMode === FunctionMode.CREATING_RELATIONSHIP ||
+      this.functionMode === FunctionMode.CREATING_EVENT ||
+      this.functionMode === FunctionMode.EDITING_TEXT
+    ) {
       return
     }
 
@@ -1332,13 +2933,22 @@ export class YsTextAnnotation extends LitElement {
       d: linePath
     }
 
-    // 检查鼠标是否在标注节点上（使用 Shadow DOM 的 elementFromPoint）
+    // 检查鼠标是否在标注节点上
+    const annotationId = this.getAnnotationIdAtPoint(e.clientX, e.clientY)
+    this.hoveredAnnotationId = annotationId && annotationId !== this.relationshipStartAnnotationId ? annotationId : null
+  }
+
+  /**
+   * 获取指定屏幕坐标下的标注ID（使用 Shadow DOM 的 elementFromPoint）
+   * @returns 标注ID（不含 'anno-' 前缀），坐标下没有标注时返回 null
+   */
+  private getAnnotationIdAtPoint(clientX: number, clientY: number): string | null {
     let elementUnderMouse: Element | null = null
     if (this.shadowRoot && typeof (this.shadowRoot as any).elementFromPoint === 'function') {
-      elementUnderMouse = (this.shadowRoot as any).elementFromPoint(e.clientX, e.clientY)
+      elementUnderMouse = (this.shadowRoot as any).elementFromPoint(clientX, clientY)
     } else {
       // 回退到 document.elementFromPoint，然后检查是否在 Shadow DOM 中
-      elementUnderMouse = document.elementFromPoint(e.clientX, e.clientY)
+      elementUnderMouse = document.elementFromPoint(clientX, clientY)
       if (elementUnderMouse) {
         const root = elementUnderMouse.getRootNode()
         if (root !== this.shadowRoot && root !== document) {
@@ -1347,21 +2957,8 @@ export class YsTextAnnotation extends LitElement {
       }
     }
 
-    if (elementUnderMouse) {
-      const annotationElement = findAnnotationElement(elementUnderMouse)
-      if (annotationElement) {
-        const annotationId = annotationElement.getAttribute('data-anno-id')?.replace('anno-', '')
-        if (annotationId && annotationId !== this.relationshipStartAnnotationId) {
-          this.hoveredAnnotationId = annotationId
-        } else {
-          this.hoveredAnnotationId = null
-        }
-      } else {
-        this.hoveredAnnotationId = null
-      }
-    } else {
-      this.hoveredAnnotationId = null
-    }
+    const annotationElement = elementUnderMouse ? findAnnotationElement(elementUnderMouse) : null
+    return annotationElement?.getAttribute('data-anno-id')?.replace('anno-', '') || null
   }
 
   /**
@@ -1376,37 +2973,37 @@ export class YsTextAnnotation extends LitElement {
     e.preventDefault()
     e.stopPropagation()
 
-    // 检查点击是否在标注节点上（使用 Shadow DOM 的 elementFromPoint）
-    let elementUnderMouse: Element | null = null
-    if (this.shadowRoot && typeof (this.shadowRoot as any).elementFromPoint === 'function') {
-      elementUnderMouse = (this.shadowRoot as any).elementFromPoint(e.clientX, e.clientY)
-    } else {
-      // 回退到 document.elementFromPoint，然后检查是否在 Shadow DOM 中
-      elementUnderMouse = document.elementFromPoint(e.clientX, e.clientY)
-      if (elementUnderMouse) {
-        const root = elementUnderMouse.getRootNode()
-        if (root !== this.shadowRoot && root !== document) {
-          elementUnderMouse = null
-        }
-      }
-    }
-
-    if (elementUnderMouse) {
-      const annotationElement = findAnnotationElement(elementUnderMouse)
-      if (annotationElement) {
-        const endAnnotationId = annotationElement.getAttribute('data-anno-id')?.replace('anno-', '')
-        if (endAnnotationId && endAnnotationId !== this.relationshipStartAnnotationId) {
-          // 创建成功
-          this.completeRelationshipCreation(endAnnotationId)
-          return
-        }
-      }
+    // 检查点击是否在标注节点上
+    const endAnnotationId = this.getAnnotationIdAtPoint(e.clientX, e.clientY)
+    if (endAnnotationId && endAnnotationId !== this.relationshipStartAnnotationId) {
+      // 创建成功
+      this.completeRelationshipCreation(endAnnotationId)
+      return
     }
 
     // 点击不在标注上，重置到默认模式
     this.resetToDefaultMode()
   }
 
+  /**
+   * 生成新的关系（使用关系类型的颜色和默认属性值）
+   */
+  private createRelationshipItem(startId: string, endId: string, relationshipType: RelationshipType | null | undefined): RelationshipItem {
+    const relationship: RelationshipItem = {
+      id: `rel-${Date.now()}`,
+      startId,
+      endId,
+      type: relationshipType?.type || '',
+      description: '',
+      color: relationshipType?.color || 'var(--default-line-color)'
+    }
+    const attributes = getDefaultAttributes(relationshipType?.attributes || [])
+    if (Object.keys(attributes).length > 0) {
+      relationship.attributes = attributes
+    }
+    return relationship
+  }
+
   /**
    * 完成关系创建
    */
@@ -1424,14 +3021,8 @@ export class YsTextAnnotation extends LitElement {
     // 如果找不到标注，使用降级方案
     if (!startAnnotation || !endAnnotation) {
       const defaultRelationshipType = this.relationshipType[0]
-      const newRelationship: RelationshipItem = {
-        id: `rel-${Date.now()}`,
-        startId: this.relationshipStartAnnotationId,
-        endId: normalizedEndId,
-        type: defaultRelationshipType?.type || '',
-        description: '',
-        color: defaultRelationshipType?.color || 'var(--default-line-color)'
-      }
+      const newRelationship = this.createRelationshipItem(this.relationshipStartAnnotationId, normalizedEndId, defaultRelationshipType)
+      this.recordHistory()
       this.relationships = [...this.relationships, newRelationship]
       this.resetToDefaultMode()
       return
@@ -1497,15 +3088,9 @@ export class YsTextAnnotation extends LitElement {
     }
 
     // 创建新关系
-    const newRelationship: RelationshipItem = {
-      id: `rel-${Date.now()}`,
-      startId: this.relationshipStartAnnotationId,
-      endId: normalizedEndId,
-      type: selectedRelationshipType?.type || '',
-      description: '',
-      color: selectedRelationshipType?.color || 'var(--default-line-color)'
-    }
+    const newRelationship = this.createRelationshipItem(this.relationshipStartAnnotationId, normalizedEndId, selectedRelationshipType)
 
+    this.recordHistory()
     this.relationships = [...this.relationships, newRelationship]
     // 重置到默认模式
     this.resetToDefaultMode()
@@ -1535,37 +3120,369 @@ export class YsTextAnnotation extends LitElement {
     }
   }
 
+  /**
+   * -------------------------------------------------- 事件（多元关系） --------------------------------------------------
+   */
+
+  // 正在创建/编辑的事件（编辑已有事件时带有原事件ID）
+  @state()
+  private eventDraft: (Omit<EventItem, 'id'> & { id?: string }) | null = null
+
+  @state()
+  private eventPanelPosition = { x: 0, y: 0 }
+
+  private eventMouseMoveHandler?: (e: MouseEvent) => void
+  private eventClickHandler?: (e: MouseEvent) => void
+
+  /**
+   * 便捷计算属性：需要以起点样式高亮的标注（关系起点或事件触发词）
+   */
+  private get highlightedStartAnnotationId(): string | null {
+    return this.relationshipStartAnnotationId || this.eventDraft?.triggerId || null
+  }
+
+  /**
+   * 打开事件面板（从右键菜单触发），进入创建/编辑事件模式
+   * 此模式下点击文本中的标注会将其添加为论元
+   */
+  private openEventPanel(draft: Omit<EventItem, 'id'> & { id?: string }) {
+    // 如果 editingEnabled 为 false，不允许切换模式
+    if (!this.editingEnabled) return
+
+    // 使用右键菜单位置定位事件面板
+    const menuPosition = { ...this.contextMenuPosition }
+    this.eventPanelPosition = this.scrollContainer
+      ? calculateEditLayerPositionFromPoint(menuPosition, this.scrollContainer, this.contentWrapper, this.mainContainer)
+      : menuPosition
+
+    this.contextMenuTarget = null
+    this.eventDraft = draft
+    this.functionMode = FunctionMode.CREATING_EVENT
+
+    // 添加全局鼠标移动和点击事件监听（悬停高亮标注、点击添加论元）
+    this.eventMouseMoveHandler = (e: MouseEvent) => {
+      const annotationId = this.getAnnotationIdAtPoint(e.clientX, e.clientY)
+      this.hoveredAnnotationId = annotationId && annotationId !== this.eventDraft?.triggerId ? annotationId : null
+    }
+    this.eventClickHandler = (e: MouseEvent) => this.handleEventClick(e)
+    document.addEventListener('mousemove', this.eventMouseMoveHandler)
+    document.addEventListener('click', this.eventClickHandler, true) // 使用捕获阶段确保优先处理
+  }
+
+  /**
+   * 处理创建事件时的点击：点击标注添加为论元，点击事件面板内的元素正常处理
+   */
+  private handleEventClick(e: MouseEvent) {
+    if (this.functionMode !== FunctionMode.CREATING_EVENT || !this.eventDraft) return
+
+    const eventPanel = this.shadowRoot?.querySelector('.event-panel')
+    if (eventPanel && e.composedPath().includes(eventPanel)) return
+
+    const annotationId = this.getAnnotationIdAtPoint(e.clientX, e.clientY)
+    if (!annotationId) return
+
+    e.preventDefault()
+    e.stopPropagation()
+    this.addEventArgument(annotationId)
+  }
+
+  /**
+   * 添加论元：触发词和已添加的标注不重复添加，角色默认取事件类型中第一个未使用的角色
+   */
+  private addEventArgument(annotationId: string) {
+    if (!this.eventDraft) return
+    const { triggerId, arguments: eventArguments } = this.eventDraft
+    if (annotationId === triggerId || eventArguments.some(argument => argument.annotationId === annotationId)) return
+
+    const roles = this.eventType.find(type => type.type === this.eventDraft!.type)?.roles || []
+    const role = roles.find(item => !eventArguments.some(argument => argument.role === item)) || ''
+    this.eventDraft = { ...this.eventDraft, arguments: [...eventArguments, { role, annotationId }] }
+  }
+
+  /**
+   * 更新正在编辑的事件
+   */
+  private updateEventDraft(changes: Partial<Omit<EventItem, 'id'>>) {
+    if (!this.eventDraft) return
+    this.eventDraft = { ...this.eventDraft, ...changes }
+  }
+
+  // 输入 -- 事件类型变化
+  private handleEventTypeChange(e: Event) {
+    const type = (e.target as HTMLSelectElement).value
+    const eventType = this.eventType.find(item => item.type === type)
+    this.updateEventDraft({ type, color: eventType?.color })
+  }
+
+  // 输入 -- 论元角色变化
+  private handleEventRoleChange(index: number, e: Event) {
+    if (!this.eventDraft) return
+    const role = (e.target as HTMLInputElement | HTMLSelectElement).value
+    const eventArguments: EventArgument[] = this.eventDraft.arguments.map((argument, i) => (i === index ? { ...argument, role } : argument))
+    this.updateEventDraft({ arguments: eventArguments })
+  }
+
+  // 点击 -- 移除论元
+  private handleRemoveEventArgument(index: number) {
+    if (!this.eventDraft) return
+    this.updateEventDraft({ arguments: this.eventDraft.arguments.filter((_, i) => i !== index) })
+  }
+
+  // 输入 -- 事件面板按键（回车确认，Escape 取消）
+  private handleEventPanelKeyDown(e: KeyboardEvent) {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      this.handleConfirmEvent()
+    } else if (e.key === 'Escape') {
+      this.resetToDefaultMode()
+    }
+  }
+
+  // 点击 -- 确认创建/编辑事件
+  private handleConfirmEvent() {
+    const draft = this.eventDraft
+    if (!draft) return
+
+    // 验证事件类型、论元和角色
+    let message = ''
+    if (!draft.type) {
+      message = '请选择事件类型'
+    } else if (draft.arguments.length === 0) {
+      message = '请至少添加一个论元'
+    } else if (draft.arguments.some(argument => !argument.role.trim())) {
+      message = '论元角色不能为空'
+    }
+    if (message) {
+      this.dispatchError(message, 'EVENT_VALIDATION_FAILED', { event: draft })
+      return
+    }
+
+    const eventItem: EventItem = {
+      ...draft,
+      id: draft.id || `event-${Date.now()}`,
+      arguments: draft.arguments.map(argument => ({ ...argument, role: argument.role.trim() })),
+      description: draft.description.trim(),
+      color: draft.color || this.eventType.find(type => type.type === draft.type)?.color || 'var(--default-line-color)'
+    }
+
+    this.recordHistory()
+    this.events = draft.id ? this.events.map(event => (event.id === eventItem.id ? eventItem : event)) : [...this.events, eventItem]
+    this.resetToDefaultMode()
+  }
+
+  /**
+   * 取消事件创建/编辑
+   */
+  private cancelEventCreation() {
+    this.eventDraft = null
+
+    if (this.eventMouseMoveHandler) {
+      document.removeEventListener('mousemove', this.eventMouseMoveHandler)
+      this.eventMouseMoveHandler = undefined
+    }
+
+    if (this.eventClickHandler) {
+      document.removeEventListener('click', this.eventClickHandler, true)
+      this.eventClickHandler = undefined
+    }
+  }
+
+  /**
+   * 计算事件路径：从触发词分别连向每个论元，路径上显示论元角色
+   * 触发词未渲染时不绘制该事件，论元未渲染时不绘制对应的连线
+   */
+  private measureEventPaths(displayedIds: Set<string>): EventPath[] {
+    const items: Array<{ event: Omit<EventItem, 'id'> & { id?: string }; draft: boolean }> = this.events
+      .filter(event => event.id !== this.eventDraft?.id)
+      .map(event => ({ event, draft: false }))
+    if (this.eventDraft) {
+      items.push({ event: this.eventDraft, draft: true })
+    }
+
+    const paths: EventPath[] = []
+    for (const { event, draft } of items) {
+      if (!displayedIds.has(event.triggerId)) continue
+      const triggerElements = this.getAnnotationAnchorElements(event.triggerId)
+      if (!triggerElements) continue
+
+      const arms: EventPath['arms'] = []
+      for (const argument of event.arguments) {
+        if (!displayedIds.has(argument.annotationId)) continue
+        const argumentElements = this.getAnnotationAnchorElements(argument.annotationId)
+        if (!argumentElements) continue
+
+        const connection = calculateAnnotationToAnnotationConnection(triggerElements, argumentElements, this.virtualListLayer)
+        const bezierResult = calculateSBezierCurvePath(
+          connection.startPos,
+          connection.endPos,
+          connection.startDirection,
+          connection.endDirection,
+          argument.role
+        )
+        arms.push({
+          annotationId: argument.annotationId,
+          role: argument.role,
+          d: bezierResult.d,
+          labelX: bezierResult.labelX,
+          labelY: bezierResult.labelY,
+          labelAngle: bezierResult.labelAngle
+        })
+      }
+
+      const { topCenter } = calculateAnnotationKeyPoints(triggerElements, this.virtualListLayer)
+      paths.push({
+        id: event.id || 'draft',
+        type: event.type,
+        color: event.color || this.eventType.find(type => type.type === event.type)?.color || 'var(--default-line-color)',
+        draft,
+        labelPos: { x: topCenter.x, y: topCenter.y - 4 },
+        arms
+      })
+    }
+
+    return paths
+  }
+
+  // 开启 -- 事件右键菜单
+  private handleEventContextMenu(e: MouseEvent, eventId: string) {
+    // 如果正在创建关系、事件或修改文本，不允许右键菜单
+    if (
+      this.functionMode === FunctionMode.CREATING_RELATIONSHIP ||
+      this.functionMode === FunctionMode.CREATING_EVENT ||
+      this.functionMode === FunctionMode.EDITING_TEXT
+    ) {
+      return
+    }
+    // 如果 editingEnabled 为 false，不允许切换模式
+    if (!this.editingEnabled) return
+    e.preventDefault()
+    e.stopPropagation()
+
+    // 重置文本选择状态，确保右键菜单可以正常显示
+    this.isSelectingText = false
+    this.contextMenuPosition = calculateContextMenuPosition(e, this.mainContainer, this.scrollContainer)
+    this.contextMenuTarget = { type: 'event', id: eventId }
+
+    // 切换到右键菜单模式
+    this.functionMode = FunctionMode.CONTEXT_MENU_OPEN
+  }
+
+  // 点击 -- 以右键的标注为触发词创建事件
+  private handleCreateEvent() {
+    if (!this.contextMenuTarget || this.contextMenuTarget.type !== 'annotation') return
+    const triggerId = this.contextMenuTarget.id.replace(/^anno-/, '')
+    const eventType = this.eventType.length === 1 ? this.eventType[0] : undefined
+    this.openEventPanel({
+      triggerId,
+      type: eventType?.type || '',
+      color: eventType?.color,
+      arguments: [],
+      description: ''
+    })
+  }
+
+  // 点击 -- 编辑事件
+  private handleEditEvent() {
+    if (!this.contextMenuTarget || this.contextMenuTarget.type !== 'event') return
+    const event = this.events.find(item => item.id === this.contextMenuTarget!.id)
+    if (!event) return
+    this.openEventPanel({ ...event, arguments: event.arguments.map(argument => ({ ...argument })) })
+  }
+
+  // 渲染 -- 事件面板（事件类型、论元列表及角色、描述）
+  private renderEventPanel() {
+    const draft = this.eventDraft
+    if (this.functionMode !== FunctionMode.CREATING_EVENT || !draft) return null
+
+    const trigger = this.annotations.find(annotation => annotation.id === draft.triggerId)
+    const roles = this.eventType.find(type => type.type === draft.type)?.roles || []
+
+    return html`<div
+      class="event-panel"
+      style=${styleMap({
+        left: `${this.eventPanelPosition.x}px`,
+        top: `${this.eventPanelPosition.y}px`
+      })}
+    >
+      <div class="event-panel-row">
+        <select required .value=${draft.type} @change=${this.handleEventTypeChange} @keydown=${this.handleEventPanelKeyDown}>
+          <option value="" disabled>选择事件类型</option>
+          ${repeat(
+            this.eventType,
+            type => type.type,
+            type => html`<option value=${type.type} style=${styleMap({ color: type.color })}>${type.type}</option>`
+          )}
+        </select>
+        <span class="event-panel-trigger">
+          触发词：<span style=${styleMap({ color: trigger?.color || 'var(--default-node-color)' })}>${trigger?.content || draft.triggerId}</span>
+        </span>
+      </div>
+      <div class="event-panel-arguments">
+        ${draft.arguments.length === 0 ? html`<div class="event-panel-hint">点击文本中的标注添加论元</div>` : null}
+        ${draft.arguments.map((argument, index) => {
+          const annotation = this.annotations.find(item => item.id === argument.annotationId)
+          return html`<div class="event-panel-argument">
+            ${roles.length > 0
+              ? html`<select
+                  .value=${argument.role}
+                  @change=${(e: Event) => this.handleEventRoleChange(index, e)}
+                  @keydown=${this.handleEventPanelKeyDown}
+                >
+                  <option value="" disabled>选择角色</option>
+                  ${roles.map(role => html`<option value=${role}>${role}</option>`)}
+                </select>`
+              : html`<input
+                  type="text"
+                  .value=${argument.role}
+                  @input=${(e: Event) => this.handleEventRoleChange(index, e)}
+                  @keydown=${this.handleEventPanelKeyDown}
+                  placeholder="角色"
+                />`}
+            <span class="event-panel-argument-content" style=${styleMap({ color: annotation?.color || 'var(--default-node-color)' })}
+              >${annotation?.content || argument.annotationId}</span
+            >
+            <button class="event-panel-remove" title="移除论元" @click=${() => this.handleRemoveEventArgument(index)}>×</button>
+          </div>`
+        })}
+      </div>
+      <div class="event-panel-row">
+        <input
+          type="text"
+          .value=${draft.description}
+          @input=${(e: Event) => this.updateEventDraft({ description: (e.target as HTMLInputElement).value })}
+          @keydown=${this.handleEventPanelKeyDown}
+          placeholder="输入描述（可选）"
+        />
+        <button class="event-panel-cancel" @click=${() => this.resetToDefaultMode()}>取消</button>
+        <button @click=${this.handleConfirmEvent}>确认</button>
+      </div>
+    </div>`
+  }
+
   /**
    * 渲染行内容，如果有标注则高亮显示
+   * 跨行标注按行拆分为多个相连的高亮片段，非连续标注的每个片段分别高亮
    */
   private renderLineContent(line: LineItem): string | ReturnType<typeof html> {
-    // 只在创建标注模式（新增）时显示选中文本的高亮，编辑模式不显示（通过 editingAnnotationId 判断）
-    const isEditingThisLine = !!(
-      this.functionMode === FunctionMode.CREATING_ANNOTATION &&
-      !this.editingAnnotationId &&
-      this.selectedTextInfo &&
-      this.selectedTextInfo.lineId === line.id
-    )
-
-    // 高亮项类型
-    interface HighlightItem {
-      start: number
-      end: number
-      content: string
-      type: 'annotation' | 'editing'
-      annotation?: AnnotationItem
+    // 创建标注模式下显示选中文本（含追加的片段）的高亮
+    // 编辑模式只显示新追加的片段（通过 editingAnnotationId 判断）
+    let editingRanges: SelectedTextInfo[] = []
+    if (this.functionMode === FunctionMode.CREATING_ANNOTATION) {
+      editingRanges = this.editingAnnotationId ? this.selectionFragments : this.selectionRanges
     }
+    const editingSegments = editingRanges
+      .map(range => getLineSegment(range, line.id, line.content.length))
+      .filter((segment): segment is LineSegment => !!segment)
+    const isEditingThisLine = editingSegments.length > 0
 
-    const lineAnnotations = getAnnotationsByLineId(this.annotations, line.id)
+    // 计算每个标注（非连续标注的每个片段）在本行内的片段，并按start位置排序，确保按顺序处理
+    const annotationSegments = getLineAnnotationSegments(this.displayedAnnotations, line)
 
     // 如果没有标注且没有正在编辑的选中文本，直接返回原文本
-    if (lineAnnotations.length === 0 && !isEditingThisLine) {
+    if (annotationSegments.length === 0 && !isEditingThisLine) {
       return line.content || '\u00A0'
     }
 
-    // 按start位置排序标注，确保按顺序处理
-    const sortedAnnotations = [...lineAnnotations].sort((a, b) => a.start - b.start)
-
     // 构建高亮后的内容片段
     const fragments: Array<string | ReturnType<typeof html>> = []
     let lastIndex = 0
@@ -1573,47 +3490,43 @@ export class YsTextAnnotation extends LitElement {
     // 合并标注和正在编辑的选中文本，统一处理
     const allHighlights: HighlightItem[] = []
 
-    // 检查正在编辑的选中文本是否与某个标注完全重叠
-    let editingOverlapsAnnotation = false
-    let overlappedAnnotation: AnnotationItem | null = null
-    if (isEditingThisLine && this.selectedTextInfo) {
-      const { start, end } = this.selectedTextInfo
-      // 查找是否有标注与正在编辑的选中文本完全重叠
-      overlappedAnnotation = sortedAnnotations.find(annotation => annotation.start === start && annotation.end === end) || null
-      editingOverlapsAnnotation = !!overlappedAnnotation
-    }
+    // 检查正在编辑的选中文本是否与某个标注片段完全重叠
+    // 嵌套/重叠模式下二者分别绘制，不需要跳过
+    const isSameAsEditingSegment = (segment: LineSegment) =>
+      !this.allowOverlap && editingSegments.some(editingSegment => segment.start === editingSegment.start && segment.end === editingSegment.end)
 
-    // 添加标注（如果正在编辑的选中文本与某个标注完全重叠，跳过该标注）
-    sortedAnnotations.forEach(annotation => {
-      // 如果正在编辑的选中文本与这个标注完全重叠，跳过这个标注
-      if (editingOverlapsAnnotation && overlappedAnnotation && annotation.id === overlappedAnnotation.id) {
+    // 添加标注（如果正在编辑的选中文本与某个标注片段完全重叠，跳过该片段）
+    annotationSegments.forEach(({ annotation, part, segment }) => {
+      if (isSameAsEditingSegment(segment)) {
         return
       }
       allHighlights.push({
-        start: annotation.start,
-        end: annotation.end,
-        content: annotation.content,
+        ...segment,
         type: 'annotation',
-        annotation
+        annotation,
+        part
       })
     })
 
     // 添加正在编辑的选中文本
-    if (isEditingThisLine && this.selectedTextInfo) {
-      const { start, end, content } = this.selectedTextInfo
+    editingSegments.forEach((editingSegment, part) => {
       allHighlights.push({
-        start,
-        end,
-        content,
-        type: 'editing'
+        ...editingSegment,
+        type: 'editing',
+        part
       })
+    })
+
+    // 嵌套/重叠模式：按层级堆叠渲染
+    if (this.allowOverlap) {
+      return this.renderStackedLineContent(line, allHighlights)
     }
 
     // 按start位置排序所有高亮
     allHighlights.sort((a, b) => a.start - b.start)
 
     allHighlights.forEach(highlight => {
-      const { start, end, content, type, annotation } = highlight
+      const { start, end, content, type, annotation, part, isFirst, isLast } = highlight
 
       // 跳过已经处理过的标注（处理重叠情况）
       if (start < lastIndex) {
@@ -1625,55 +3538,216 @@ export class YsTextAnnotation extends LitElement {
         fragments.push(line.content.substring(lastIndex, start))
       }
 
+      // 跨行片段的连接样式：非首片段向上一行延续，非末片段向下一行延续
+      const continueClass = `${isFirst ? '' : ' continues-before'}${isLast ? '' : ' continues-after'}`
+
       // 验证内容是否匹配
       const actualContent = line.content.substring(start, end)
       if (actualContent === content) {
         if (type === 'editing') {
           // 正在编辑的选中文本，使用特殊样式
-          fragments.push(html`<span class="line-selection-highlight">${content}<span class="line-selection-highlight-border"></span></span>`)
+          fragments.push(
+            html`<span class="line-selection-highlight${continueClass}">${content}<span class="line-selection-highlight-border"></span></span>`
+          )
         } else if (annotation) {
           // 添加高亮的标注文本
           // 如果存在 color，通过 CSS 变量设置，否则使用默认值
           const styleAttr = annotation.color ? `--highlight-color: ${annotation.color};` : ''
           // 如果这个标注区域与正在编辑的选中文本重叠，添加 editing 类
-          const editingClass =
-            isEditingThisLine && this.selectedTextInfo && start === this.selectedTextInfo.start && end === this.selectedTextInfo.end ? ' editing' : ''
+          const editingClass = editingSegments.some(editingSegment => start === editingSegment.start && end === editingSegment.end) ? ' editing' : ''
+          // 非连续标注的片段
+          const fragmentClass = getAnnotationRanges(annotation).length > 1 ? ' fragment' : ''
 
           // 判断是否需要高亮（起点标注或悬停的标注）
-          const isStartAnnotation = this.relationshipStartAnnotationId === annotation.id
+          const isStartAnnotation = this.highlightedStartAnnotationId === annotation.id
           const isHoveredAnnotation = this.hoveredAnnotationId === annotation.id
           const highlightClass = isStartAnnotation ? ' creating-relationship-start' : isHoveredAnnotation ? ' creating-relationship-hover' : ''
 
-          fragments.push(
-            html`<span
-              class="line-highlight${editingClass}${highlightClass}"
-              data-anno-id=${`anno-${annotation.id}`}
-              style=${styleAttr}
-              @mouseenter=${() => this.handleHighlightMouseEnter()}
-              @mouseleave=${() => this.handleHighlightMouseLeave()}
-              @contextmenu=${(e: MouseEvent) => this.handleAnnotationContextMenu(e, annotation.id)}
-              >${content}<span class="line-highlight-border"></span><span class="line-highlight-desc">${annotation.type}</span></span
-            >`
-          )
-        }
-        lastIndex = end
-      } else {
-        // 如果内容不匹配，跳过这个标注，不更新lastIndex
-        return
+          // 跨行标注、非连续标注只在第一个片段显示类型标签
+          fragments.push(
+            html`<span
+              class="line-highlight${editingClass}${highlightClass}${continueClass}${fragmentClass}"
+              data-anno-id=${`anno-${annotation.id}`}
+              data-anno-part=${part}
+              style=${styleAttr}
+              @mouseenter=${() => this.handleHighlightMouseEnter()}
+              @mouseleave=${() => this.handleHighlightMouseLeave()}
+              @contextmenu=${(e: MouseEvent) => this.handleAnnotationContextMenu(e, annotation.id)}
+              >${content}<span class="line-highlight-border"></span>${isFirst && part === 0
+                ? html`<span class="line-highlight-desc">${annotation.type}</span>`
+                : null}</span
+            >`
+          )
+        }
+        lastIndex = end
+      } else {
+        // 如果内容不匹配，跳过这个标注，不更新lastIndex
+        return
+      }
+    })
+
+    // 添加剩余的文本
+    if (lastIndex < line.content.length) {
+      fragments.push(line.content.substring(lastIndex))
+    }
+
+    // 如果没有内容，返回空格
+    if (fragments.length === 0) {
+      return '\u00A0'
+    }
+
+    // 使用html模板渲染所有片段
+    return html`${fragments}`
+  }
+
+  /**
+   * 经过类型过滤后显示的标注缓存（annotations、typeFilter 或 annotationType 变化时重新计算）
+   */
+  private displayedAnnotationCache: {
+    annotations: AnnotationItem[]
+    typeFilter: string[]
+    annotationType: AnnotationType[]
+    result: AnnotationItem[]
+  } | null = null
+
+  private get displayedAnnotations(): AnnotationItem[] {
+    const cache = this.displayedAnnotationCache
+    if (cache && cache.annotations === this.annotations && cache.typeFilter === this.typeFilter && cache.annotationType === this.annotationType) {
+      return cache.result
+    }
+
+    // 过滤条件包含父类型时，其所有子孙类型的标注一并显示
+    const result =
+      this.typeFilter.length === 0
+        ? this.annotations
+        : this.annotations.filter(annotation => this.typeFilter.some(typeName => isTypeOrDescendant(annotation.type, typeName, this.annotationType)))
+    this.displayedAnnotationCache = { annotations: this.annotations, typeFilter: this.typeFilter, annotationType: this.annotationType, result }
+    return result
+  }
+
+  /**
+   * 嵌套/重叠标注的层级缓存（annotations 或段落变化时重新计算）
+   */
+  private annotationLevelCache: { annotations: AnnotationItem[]; lines: LineItem[]; levels: Map<string, number> } | null = null
+
+  private get annotationLevels(): Map<string, number> {
+    const cache = this.annotationLevelCache
+    if (cache && cache.annotations === this.annotations && cache.lines === this.lines) {
+      return cache.levels
+    }
+    const levels = assignAnnotationLevels(this.annotations, getLineStartOffsets(this.lines.map(line => line.content.length)))
+    this.annotationLevelCache = { annotations: this.annotations, lines: this.lines, levels }
+    return levels
+  }
+
+  /**
+   * 以堆叠方式渲染行内容（嵌套/重叠模式）
+   * 按所有高亮的起止位置把行切分为原子片段，每个片段内为覆盖它的每个标注按层级绘制边框，
+   * 标注起始的片段内绘制类型标签；点击文本时指向覆盖该处的最内层标注，点击标签时指向对应层级的标注
+   */
+  private renderStackedLineContent(line: LineItem, highlights: HighlightItem[]): string | ReturnType<typeof html> {
+    // 过滤掉内容不匹配（原文已变化）或为空的高亮
+    const validHighlights = highlights.filter(
+      highlight => highlight.end > highlight.start && line.content.substring(highlight.start, highlight.end) === highlight.content
+    )
+    if (validHighlights.length === 0) {
+      return line.content || '\u00A0'
+    }
+
+    // 计算层级：标注使用全局层级，正在编辑的选中文本放在与其相交的标注之外
+    const levels = this.annotationLevels
+    const annotationItems = validHighlights.filter(highlight => highlight.annotation)
+    const items = validHighlights.map(highlight => {
+      if (highlight.annotation) {
+        return { ...highlight, level: levels.get(highlight.annotation.id) ?? 0 }
       }
+      const overlapping = annotationItems.filter(item => item.start < highlight.end && item.end > highlight.start)
+      return { ...highlight, level: overlapping.length > 0 ? Math.max(...overlapping.map(item => levels.get(item.annotation!.id) ?? 0)) + 1 : 0 }
     })
 
-    // 添加剩余的文本
-    if (lastIndex < line.content.length) {
-      fragments.push(line.content.substring(lastIndex))
-    }
+    // 收集所有切分点
+    const boundaries = [...new Set([0, line.content.length, ...items.flatMap(item => [item.start, item.end])])].sort((a, b) => a - b)
 
-    // 如果没有内容，返回空格
-    if (fragments.length === 0) {
-      return '\u00A0'
+    const fragments: Array<string | ReturnType<typeof html>> = []
+    for (let i = 0; i < boundaries.length - 1; i++) {
+      const from = boundaries[i]
+      const to = boundaries[i + 1]
+      const text = line.content.substring(from, to)
+
+      // 覆盖当前片段的高亮，按层级由内向外排序
+      const covering = items.filter(item => item.start <= from && item.end >= to).sort((a, b) => a.level - b.level)
+      if (covering.length === 0) {
+        fragments.push(text)
+        continue
+      }
+
+      // 文本指向覆盖该处的最内层标注
+      const innermost = covering.find(item => item.annotation)?.annotation
+      const startsHere = covering.filter(item => item.start === from)
+      const endsHere = covering.filter(item => item.end === to)
+      const stackDepth = Math.max(...covering.map(item => item.level))
+
+      const wrapperStyle = styleMap({
+        '--highlight-color': innermost?.color || null,
+        '--stack-depth': `${stackDepth}`,
+        'padding-left': `${startsHere.length * 0.25}rem`,
+        'padding-right': `${endsHere.length * 0.25}rem`
+      })
+
+      fragments.push(
+        html`<span
+          class="line-highlight stacked${innermost ? '' : ' editing'}"
+          data-anno-id=${innermost ? `anno-${innermost.id}` : nothing}
+          style=${wrapperStyle}
+          @mouseenter=${() => this.handleHighlightMouseEnter()}
+          @mouseleave=${() => this.handleHighlightMouseLeave()}
+          @contextmenu=${(e: MouseEvent) => innermost && this.handleAnnotationContextMenu(e, innermost.id)}
+          >${text}${covering.map(item => {
+            const { annotation } = item
+            const isStart = item.start === from
+            const isEnd = item.end === to
+            // 同一位置起止的多个标注，外层边框在外、内层边框依次向内缩进
+            const insetStart = isStart ? startsHere.filter(other => other.level > item.level).length : 0
+            const insetEnd = isEnd ? endsHere.filter(other => other.level > item.level).length : 0
+            const borderClass = classMap({
+              'line-highlight-border': true,
+              'editing-border': !annotation,
+              'open-start': !isStart,
+              'open-end': !isEnd,
+              'continues-before': isStart && !item.isFirst,
+              'continues-after': isEnd && !item.isLast,
+              fragment: !!annotation && getAnnotationRanges(annotation).length > 1,
+              'creating-relationship-start': !!annotation && this.highlightedStartAnnotationId === annotation.id,
+              'creating-relationship-hover': !!annotation && this.hoveredAnnotationId === annotation.id
+            })
+            const borderStyle = styleMap({
+              '--highlight-color': annotation ? annotation.color || null : null,
+              '--level': `${item.level}`,
+              left: `${insetStart * 0.25}rem`,
+              right: `${insetEnd * 0.25}rem`
+            })
+            return html`<span
+              class=${borderClass}
+              data-anno-id=${annotation ? `anno-${annotation.id}` : nothing}
+              data-anno-part=${annotation ? item.part : nothing}
+              style=${borderStyle}
+            ></span>`
+          })}${startsHere
+            .filter(item => item.annotation && item.isFirst && item.part === 0)
+            .map(
+              item =>
+                html`<span
+                  class="line-highlight-desc"
+                  data-anno-id=${`anno-${item.annotation!.id}`}
+                  style=${styleMap({ '--highlight-color': item.annotation!.color || null, '--level': `${item.level}` })}
+                  @contextmenu=${(e: MouseEvent) => this.handleAnnotationContextMenu(e, item.annotation!.id)}
+                  >${item.annotation!.type}</span
+                >`
+            )}</span
+        >`
+      )
     }
 
-    // 使用html模板渲染所有片段
     return html`${fragments}`
   }
 
@@ -1682,7 +3756,7 @@ export class YsTextAnnotation extends LitElement {
    * 为了性能考虑，只在 lines 或 annotations 变化时调用，不在 render 中计算
    */
   private updateGroupedAnnotations() {
-    this.groupedAnnotations = updateGroupedAnnotations(this.lines, this.annotations)
+    this.groupedAnnotations = updateGroupedAnnotations(this.lines, this.displayedAnnotations)
   }
 
   /**
@@ -1726,6 +3800,13 @@ export class YsTextAnnotation extends LitElement {
             </marker>
           `
         })}
+        ${this.eventPaths.map(
+          path => svg`
+            <marker id=${`event-arrowhead-${path.id}`} markerWidth="6" markerHeight="6" refX="3" refY="3" orient="auto">
+              <circle cx="3" cy="3" r="2.5" fill=${path.color} />
+            </marker>
+          `
+        )}
       </defs>
       ${this.relationshipPaths.map(path => {
         // 为每个路径生成唯一的marker ID
@@ -1744,7 +3825,7 @@ export class YsTextAnnotation extends LitElement {
               @mouseenter=${this.handleHighlightMouseEnter}
               @mouseleave=${this.handleHighlightMouseLeave}
               @contextmenu=${(e: MouseEvent) => this.handleRelationshipContextMenu(e, path.id)}
-            ></path>
+            ><title>${path.tooltip}</title></path>
             <text
               class="relationship-label"
               x=${path.labelX}
@@ -1754,7 +3835,7 @@ export class YsTextAnnotation extends LitElement {
               @mouseenter=${this.handleHighlightMouseEnter}
               @mouseleave=${this.handleHighlightMouseLeave}
               @contextmenu=${(e: MouseEvent) => this.handleRelationshipContextMenu(e, path.id)}
-            >${path.label}</text>
+            >${path.label}<title>${path.tooltip}</title></text>
           `
         }
         return svg`
@@ -1768,9 +3849,10 @@ export class YsTextAnnotation extends LitElement {
             @mouseenter=${this.handleHighlightMouseEnter}
             @mouseleave=${this.handleHighlightMouseLeave}
             @contextmenu=${(e: MouseEvent) => this.handleRelationshipContextMenu(e, path.id)}
-          ></path>
+          ><title>${path.tooltip}</title></path>
         `
       })}
+      ${this.renderEventPaths()}
       ${
         this.tempRelationshipPath
           ? svg`<path
@@ -1785,6 +3867,47 @@ export class YsTextAnnotation extends LitElement {
     `
   }
 
+  /**
+   * 渲染事件路径：从触发词扇形连向各个论元，触发词上方显示事件类型
+   */
+  private renderEventPaths() {
+    return this.eventPaths.map(path => {
+      const onContextMenu = (e: MouseEvent) => !path.draft && this.handleEventContextMenu(e, path.id)
+      return svg`
+        <g class=${classMap({ 'event-group': true, draft: !!path.draft })} data-event-id=${path.id}>
+          ${path.arms.map(
+            arm => svg`
+              <path
+                class="relationship-path event-path"
+                d=${arm.d}
+                stroke=${path.color}
+                marker-end=${`url(#event-arrowhead-${path.id})`}
+                @mouseenter=${this.handleHighlightMouseEnter}
+                @mouseleave=${this.handleHighlightMouseLeave}
+                @contextmenu=${onContextMenu}
+              ><title>${path.type} · ${arm.role}</title></path>
+              ${
+                arm.role && arm.labelX !== undefined && arm.labelY !== undefined && arm.labelAngle !== undefined
+                  ? svg`<text
+                      class="relationship-label"
+                      x=${arm.labelX}
+                      y=${arm.labelY}
+                      fill=${path.color}
+                      transform=${`rotate(${arm.labelAngle} ${arm.labelX} ${arm.labelY})`}
+                      @mouseenter=${this.handleHighlightMouseEnter}
+                      @mouseleave=${this.handleHighlightMouseLeave}
+                      @contextmenu=${onContextMenu}
+                    >${arm.role}</text>`
+                  : null
+              }
+            `
+          )}
+          ${path.type ? svg`<text class="event-type-label" x=${path.labelPos.x} y=${path.labelPos.y} fill=${path.color}>${path.type}</text>` : null}
+        </g>
+      `
+    })
+  }
+
   render() {
     // 引用_currentScrollTop确保滚动时触发SVG重绘
     void this._currentScrollTop
@@ -1823,24 +3946,44 @@ export class YsTextAnnotation extends LitElement {
 
     return html`
       <div class="main">
-        <div class="scroll-container" @scroll=${this.handleScroll}>
-          <div class="content-wrapper" style=${contentStyleMap}>
-            <!-- SVG 关系层：与 virtual-list-layer 完全重叠 -->
-            <svg class=${svgClassMap} style=${svgStyleMap} overflow="visible">${this.renderRelationshipSVG()}</svg>
-
-            <!-- 虚拟列表层 （标注节点层） -->
-            <div class=${virtualClassMap} style=${virtualStyleMap}>
-              <!-- 内层包裹，应用 VirtualCore 返回的 offset 偏移 -->
-              <div class="virtual-list-content" style=${virtualContentStyleMap}>
-                ${visibleLines.map(
-                  line => html`
-                    <div class="line">
-                      ${this.showLineNumber ? html`<span class="line-number">${line.id + 1}</span>` : null}
-                      <span class="line-content">${this.renderLineContent(line)}</span>
-                    </div>
-                  `
-                )}
+        <div class="main-column">
+          <!-- 文档分类标签区 -->
+          ${this.renderDocumentLabels()}
+
+          <!-- 快速标注工具栏 -->
+          ${this.renderQuickLabelBar()}
+
+          <div class="scroll-container" @scroll=${this.handleScroll}>
+            <div class="content-wrapper" style=${contentStyleMap}>
+              <!-- SVG 关系层：与 virtual-list-layer 完全重叠 -->
+              <svg class=${svgClassMap} style=${svgStyleMap} overflow="visible">${this.renderRelationshipSVG()}</svg>
+
+              <!-- SVG 片段连接层：连接非连续标注的各个片段，不受关系层透明度影响 -->
+              <svg class="fragment-link-layer" style=${svgStyleMap} overflow="visible">
+                ${this.fragmentLinkPaths.map(link => svg`<path class="fragment-link-path" d=${link.d} stroke=${link.color}></path>`)}
+              </svg>
+
+              <!-- 虚拟列表层 （标注节点层） -->
+              <div class=${virtualClassMap} style=${virtualStyleMap}>
+                <!-- 内层包裹，应用 VirtualCore 返回的 offset 偏移 -->
+                <div class="virtual-list-content" style=${virtualContentStyleMap}>
+                  ${visibleLines.map(
+                    line => html`
+                      <div class="line" data-line-id=${line.id}>
+                        ${this.showLineNumber ? html`<span class="line-number">${line.id + 1}</span>` : null}
+                        ${this.renderLineLabelGutter(line)}
+                        ${this.editingLineId === line.id
+                          ? this.renderLineTextEditor()
+                          : html`<span class="line-content">${this.renderLineContent(line)}</span>`}
+                        ${this.renderLineEditButton(line)}
+                      </div>
+                    `
+                  )}
+                </div>
               </div>
+
+              <!-- 键盘光标 -->
+              ${this.renderKeyboardCaret()}
             </div>
           </div>
         </div>
@@ -1851,12 +3994,323 @@ export class YsTextAnnotation extends LitElement {
         <!-- 编辑层 -->
         ${this.renderEditLayer()}
 
+        <!-- 事件面板 -->
+        ${this.renderEventPanel()}
+
+        <!-- 段落标签选择器 -->
+        ${this.renderLineLabelPicker()}
+
         <!-- 右键菜单层 -->
         ${this.renderContextMenu()}
       </div>
     `
   }
 
+  /**
+   * -------------------------------------------------- 分类标签（文档级、段落级） --------------------------------------------------
+   */
+
+  // 段落标签选择器（打开时记录所属段落和相对于 main 的位置）
+  @state()
+  private lineLabelPicker: { lineId: number; x: number; y: number } | null = null
+
+  @state()
+  private lineLabelKeyword = ''
+
+  /**
+   * 切换文档标签
+   */
+  private handleDocumentLabelToggle(type: string) {
+    if (!this.editingEnabled) return
+    this.recordHistory()
+    this.documentLabels = toggleLabel(this.documentLabels, type)
+  }
+
+  /**
+   * 切换段落标签
+   */
+  private handleLineLabelToggle(lineId: number, type: string) {
+    if (!this.editingEnabled) return
+    this.recordHistory()
+    this.lineLabels = setLineLabels(this.lineLabels, lineId, toggleLabel(getLineLabels(this.lineLabels, lineId), type))
+  }
+
+  /**
+   * 打开段落标签选择器，定位到标签栏按钮下方
+   */
+  private openLineLabelPicker(e: MouseEvent, lineId: number) {
+    e.stopPropagation()
+    if (!this.editingEnabled) return
+    if (this.lineLabelPicker?.lineId === lineId) {
+      this.closeLineLabelPicker()
+      return
+    }
+
+    const pickerWidth = 200
+    const buttonRect = (e.currentTarget as HTMLElement).getBoundingClientRect()
+    const mainRect = this.mainContainer.getBoundingClientRect()
+    this.lineLabelKeyword = ''
+    this.lineLabelPicker = {
+      lineId,
+      x: Math.max(0, Math.min(buttonRect.left - mainRect.left, mainRect.width - pickerWidth)),
+      y: buttonRect.bottom - mainRect.top + 4
+    }
+
+    // 打开后聚焦搜索框，便于直接输入筛选
+    this.updateComplete.then(() => {
+      const searchInput = this.shadowRoot?.querySelector('.line-label-picker-search') as HTMLInputElement | null
+      searchInput?.focus()
+    })
+  }
+
+  private closeLineLabelPicker() {
+    this.lineLabelPicker = null
+    this.lineLabelKeyword = ''
+  }
+
+  /**
+   * 便捷计算属性：段落标签选择器中按关键字筛选后的类型
+   */
+  private get lineLabelMatches(): ClassificationType[] {
+    const keyword = this.lineLabelKeyword.trim().toLowerCase()
+    if (!keyword) return this.lineLabelType
+    return this.lineLabelType.filter(type => type.type.toLowerCase().includes(keyword))
+  }
+
+  /**
+   * 段落标签选择器键盘操作：回车切换第一个匹配的标签，Escape 关闭
+   */
+  private handleLineLabelPickerKeyDown(e: KeyboardEvent) {
+    if (!this.lineLabelPicker) return
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      const first = this.lineLabelMatches[0]
+      if (first) {
+        this.handleLineLabelToggle(this.lineLabelPicker.lineId, first.type)
+        this.lineLabelKeyword = ''
+      }
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      this.closeLineLabelPicker()
+    }
+  }
+
+  // 渲染 -- 文档标签区（可编辑时显示全部类型供切换，只读时只显示已选标签）
+  private renderDocumentLabels() {
+    if (this.documentLabelType.length === 0) return null
+
+    const types = this.editingEnabled ? this.documentLabelType : this.documentLabelType.filter(type => this.documentLabels.includes(type.type))
+    return html`<div class="document-labels">
+      <span class="document-labels-title">文档标签</span>
+      ${types.length === 0 ? html`<span class="document-labels-empty">无</span>` : null}
+      ${repeat(
+        types,
+        type => type.type,
+        type => {
+          const selected = this.documentLabels.includes(type.type)
+          return html`<span
+            class=${classMap({ 'label-chip': true, selected, editable: this.editingEnabled })}
+            style=${styleMap({ '--label-color': type.color })}
+            @click=${() => this.handleDocumentLabelToggle(type.type)}
+            >${type.type}</span
+          >`
+        }
+      )}
+    </div>`
+  }
+
+  // 渲染 -- 段落标签栏（位于行号旁，以色块显示已选标签）
+  private renderLineLabelGutter(line: LineItem) {
+    if (this.lineLabelType.length === 0) return null
+
+    const labels = getLineLabels(this.lineLabels, line.id)
+    return html`<span class="line-label-gutter">
+      ${labels.map(label => {
+        const color = this.lineLabelType.find(type => type.type === label)?.color
+        return html`<span class="line-label-dot" title=${label} style=${styleMap({ background: color || null })}></span>`
+      })}
+      ${this.editingEnabled
+        ? html`<button
+            type="button"
+            class=${classMap({ 'line-label-add': true, active: this.lineLabelPicker?.lineId === line.id })}
+            title="段落标签"
+            @click=${(e: MouseEvent) => this.openLineLabelPicker(e, line.id)}
+          >
+            +
+          </button>`
+        : null}
+    </span>`
+  }
+
+  // 渲染 -- 段落标签选择器
+  private renderLineLabelPicker() {
+    const picker = this.lineLabelPicker
+    if (!picker || !this.editingEnabled) return null
+
+    const labels = getLineLabels(this.lineLabels, picker.lineId)
+    const matches = this.lineLabelMatches
+    return html`<div class="line-label-picker" style=${styleMap({ left: `${picker.x}px`, top: `${picker.y}px` })}>
+      <input
+        class="line-label-picker-search"
+        type="text"
+        .value=${this.lineLabelKeyword}
+        @input=${(e: Event) => (this.lineLabelKeyword = (e.target as HTMLInputElement).value)}
+        @keydown=${this.handleLineLabelPickerKeyDown}
+        placeholder="第 ${picker.lineId + 1} 段：搜索标签"
+      />
+      <div class="line-label-picker-list">
+        ${matches.length === 0 ? html`<div class="line-label-picker-empty">无匹配标签</div>` : null}
+        ${repeat(
+          matches,
+          type => type.type,
+          type => html`<label class="line-label-picker-item">
+            <input type="checkbox" .checked=${labels.includes(type.type)} @change=${() => this.handleLineLabelToggle(picker.lineId, type.type)} />
+            <span class="line-label-dot" style=${styleMap({ background: type.color })}></span>
+            <span>${type.type}</span>
+          </label>`
+        )}
+      </div>
+    </div>`
+  }
+
+  /**
+   * -------------------------------------------------- 修改文本 --------------------------------------------------
+   */
+
+  // 正在修改文本的段落
+  @state()
+  private editingLineId: number | null = null
+
+  @state()
+  private editingLineText = ''
+
+  /**
+   * 开始修改段落文本，进入修改文本模式
+   */
+  private handleStartTextEdit(e: MouseEvent, lineId: number) {
+    e.stopPropagation()
+    if (!this.editingEnabled || !this.textEditingEnabled || this.functionMode !== FunctionMode.DEFAULT) return
+
+    this.editingLineId = lineId
+    this.editingLineText = this.lines[lineId]?.content ?? ''
+    this.functionMode = FunctionMode.EDITING_TEXT
+
+    // 渲染后聚焦输入框并按内容调整高度
+    this.updateComplete.then(() => {
+      const textarea = this.shadowRoot?.querySelector('.line-edit-input') as HTMLTextAreaElement | null
+      if (!textarea) return
+      textarea.focus()
+      this.resizeLineTextEditor(textarea)
+    })
+  }
+
+  /**
+   * 输入框高度跟随内容变化，并同步虚拟列表的行高
+   */
+  private resizeLineTextEditor(textarea: HTMLTextAreaElement) {
+    textarea.style.height = 'auto'
+    textarea.style.height = `${textarea.scrollHeight}px`
+    requestAnimationFrame(() => {
+      this.measureAndUpdateHeights()
+      this.scheduleMeasureRelationships()
+    })
+  }
+
+  private handleLineTextInput(e: Event) {
+    const textarea = e.target as HTMLTextAreaElement
+    this.editingLineText = textarea.value
+    this.resizeLineTextEditor(textarea)
+  }
+
+  /**
+   * 修改文本时的键盘操作：回车确认（Shift + 回车换行，即拆分段落），Escape 取消
+   */
+  private handleLineTextKeyDown(e: KeyboardEvent) {
+    if (e.key === 'Enter' && !e.shiftKey && !e.isComposing) {
+      e.preventDefault()
+      this.handleConfirmTextEdit()
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      this.resetToDefaultMode()
+    }
+  }
+
+  /**
+   * 确认修改文本：更新内容、重新定位受影响的标注，并派发 text-edit 事件
+   */
+  private handleConfirmTextEdit() {
+    const lineId = this.editingLineId
+    if (lineId === null || !this.lines[lineId]) return
+
+    const oldText = this.lines[lineId].content
+    const newText = this.editingLineText
+    this.resetToDefaultMode()
+    if (newText === oldText) return
+
+    // 只比较当前段落，得到的修改位置换算为全局下标
+    const lineStart = getLineStartOffsets(this.lines.map(line => line.content.length))[lineId]
+    const edits = diffText(oldText, newText).map(edit => ({
+      oldStart: lineStart + edit.oldStart,
+      oldEnd: lineStart + edit.oldEnd,
+      newStart: lineStart + edit.newStart,
+      newEnd: lineStart + edit.newEnd
+    }))
+    // 修改项的位置基于修改前的文本，需在更新内容前换算
+    const changes = this.getTextChanges(lineId, lineStart, edits, newText)
+    const content = this.content.slice(0, lineStart) + newText + this.content.slice(lineStart + oldText.length)
+
+    this.remapContent(content, edits)
+    this.dispatchEvent(
+      new CustomEvent<TextEditEventDetail>('text-edit', {
+        detail: { lineId, oldText, newText, changes, content },
+        bubbles: true,
+        composed: true
+      })
+    )
+  }
+
+  /**
+   * 将段落内的修改转换为对外的修改项（按偏移量模式和单位换算位置）
+   */
+  private getTextChanges(lineId: number, lineStart: number, edits: TextEdit[], newText: string): TextChange[] {
+    const { starts, boundaries } = this.offsetIndex
+    const toOffset = (offset: number) => {
+      const unitOffset = utf16ToUnitOffset(boundaries[lineId] ?? null, offset - lineStart)
+      return this.offsetMode === 'global' ? starts[lineId] + unitOffset : unitOffset
+    }
+    return edits.map(edit => ({
+      start: toOffset(edit.oldStart),
+      end: toOffset(edit.oldEnd),
+      text: newText.slice(edit.newStart - lineStart, edit.newEnd - lineStart)
+    }))
+  }
+
+  // 渲染 -- 段落文本输入框
+  private renderLineTextEditor() {
+    return html`<span class="line-content line-text-editor">
+      <textarea
+        class="line-edit-input"
+        rows="1"
+        .value=${this.editingLineText}
+        @input=${this.handleLineTextInput}
+        @keydown=${this.handleLineTextKeyDown}
+      ></textarea>
+      <span class="line-edit-actions">
+        <span class="line-edit-hint">回车保存，Shift + 回车换行，Esc 取消</span>
+        <button class="line-edit-cancel" @click=${() => this.resetToDefaultMode()}>取消</button>
+        <button @click=${this.handleConfirmTextEdit}>保存</button>
+      </span>
+    </span>`
+  }
+
+  // 渲染 -- 段落修改文本按钮（鼠标移入段落时显示）
+  private renderLineEditButton(line: LineItem) {
+    if (!this.editingEnabled || !this.textEditingEnabled || this.editingLineId !== null) return null
+    return html`<button type="button" class="line-edit-button" title="修改文本" @click=${(e: MouseEvent) => this.handleStartTextEdit(e, line.id)}>
+      ✎
+    </button>`
+  }
+
   /**
    * -------------------------------------------------- 右侧进度总览 --------------------------------------------------
    */
@@ -1974,8 +4428,8 @@ export class YsTextAnnotation extends LitElement {
       const relatedAnnotation = this.annotations.find(ann => ann.id === relatedAnnotationId)
       if (!relatedAnnotation) continue
 
-      // 检查关联标注是否在当前虚拟列表渲染范围内
-      if (relatedAnnotation.lineId >= this.visibleStartIndex && relatedAnnotation.lineId <= this.visibleEndIndex) {
+      // 检查关联标注是否在当前虚拟列表渲染范围内（跨行标注只要有一行在范围内即可）
+      if (getEndLineId(relatedAnnotation) >= this.visibleStartIndex && relatedAnnotation.lineId <= this.visibleEndIndex) {
         result.push({
           relationship,
           relatedAnnotation,
@@ -2149,9 +4603,13 @@ export class YsTextAnnotation extends LitElement {
                 })
                 return html`
                   <div class="annotation-list-item-wrapper">
-                    <div class="annotation-list-item" title="点击跳转到行号 ${annotation.lineId + 1}" @click=${() => this.jumpToAnnotation(annotation)}>
+                    <div
+                      class="annotation-list-item"
+                      title="点击跳转到行号 ${formatLineRange(annotation)}"
+                      @click=${() => this.jumpToAnnotation(annotation)}
+                    >
                       <div class="annotation-list-item-line">
-                        <span class="annotation-list-line-number">${annotation.lineId + 1}</span>
+                        <span class="annotation-list-line-number">${formatLineRange(annotation)}</span>
                         <span class="annotation-list-type" style=${listTypeStyleMap}>${annotation.type}</span>
                       </div>
                       <div class="annotation-list-item-content">${annotation.content}</div>
@@ -2176,7 +4634,7 @@ export class YsTextAnnotation extends LitElement {
                                       ? html`<span class="annotation-list-relation-type" style=${arrowStyleMap}>${relationship.type}</span>`
                                       : null}
                                     <div class="annotation-list-relation-target">
-                                      <span class="annotation-list-relation-line-number">${relatedAnnotation.lineId + 1}</span>
+                                      <span class="annotation-list-relation-line-number">${formatLineRange(relatedAnnotation)}</span>
                                       <span class="annotation-list-relation-content" style=${leftStyleMap}>${relatedAnnotation.content}</span>
                                     </div>
                                   </div>
@@ -2227,6 +4685,8 @@ export class YsTextAnnotation extends LitElement {
   private selectedRelationshipType: string = '' // 选中关系类型
   @state()
   private editInputValue = '' // 编辑输入值
+  @state()
+  private editAttributeValues: Record<string, AttributeValue> = {} // 编辑中的属性值
 
   private editingAnnotationId: string | null = null // 正在编辑的标注ID
   private editingRelationshipId: string | null = null // 正在编辑的关系ID
@@ -2239,6 +4699,105 @@ export class YsTextAnnotation extends LitElement {
     } else {
       this.selectedAnnotationType = select.value
     }
+    this.resetAttributeValuesForType()
+  }
+
+  // 切换类型后按新类型的属性定义重置属性值，保留同名属性已填写的值
+  private resetAttributeValuesForType() {
+    const schemas = this.editingAttributeSchemas
+    this.editAttributeValues = { ...getDefaultAttributes(schemas), ...pickAttributes(schemas, this.editAttributeValues) }
+  }
+
+  // 计算属性 -- 标注类型是否存在层级关系（存在时使用层级选择器代替下拉框）
+  private get hasTypeHierarchy(): boolean {
+    return this.annotationType.some(type => !!type.parent)
+  }
+
+  @state()
+  private typePickerOpen = false // 层级选择器是否展开
+  @state()
+  private typePickerKeyword = '' // 层级选择器搜索关键字
+  @state()
+  private expandedTypes: Set<string> = new Set() // 层级选择器中已展开的类型
+
+  // 点击 -- 展开/收起层级选择器
+  private handleTypePickerToggle() {
+    this.typePickerOpen = !this.typePickerOpen
+    this.typePickerKeyword = ''
+    if (this.typePickerOpen) {
+      // 展开当前选中类型的所有祖先，并聚焦搜索框
+      this.expandedTypes = new Set([...this.expandedTypes, ...getTypeAncestors(this.selectedAnnotationType, this.annotationType)])
+      this.updateComplete.then(() => {
+        const searchInput = this.shadowRoot?.querySelector('.type-picker-search') as HTMLInputElement | null
+        searchInput?.focus()
+      })
+    }
+  }
+
+  // 点击 -- 展开/收起某个类型的子类型
+  private handleTypeExpandToggle(e: MouseEvent, typeName: string) {
+    e.stopPropagation()
+    const expanded = new Set(this.expandedTypes)
+    if (expanded.has(typeName)) {
+      expanded.delete(typeName)
+    } else {
+      expanded.add(typeName)
+    }
+    this.expandedTypes = expanded
+  }
+
+  // 点击 -- 在层级选择器中选择类型
+  private handleTypePick(typeName: string) {
+    this.selectedAnnotationType = typeName
+    this.resetAttributeValuesForType()
+    this.typePickerOpen = false
+    this.typePickerKeyword = ''
+  }
+
+  // 计算属性 -- 层级选择器中与搜索关键字匹配的类型（无关键字时返回 null）
+  private get typePickerMatches(): AnnotationType[] | null {
+    const keyword = this.typePickerKeyword.trim().toLowerCase()
+    if (!keyword) return null
+    return this.annotationType.filter(type => type.type.toLowerCase().includes(keyword))
+  }
+
+  // 输入 -- 层级选择器搜索
+  private handleTypePickerKeyDown(e: KeyboardEvent) {
+    if (e.key === 'Enter') {
+      // 回车选择第一个匹配的类型
+      e.preventDefault()
+      const firstMatch = this.typePickerMatches?.[0]
+      if (firstMatch) {
+        this.handleTypePick(firstMatch.type)
+      }
+    } else if (e.key === 'Escape') {
+      // 只收起选择器，不关闭编辑层
+      e.stopPropagation()
+      this.typePickerOpen = false
+    }
+  }
+
+  // 计算属性 -- 当前编辑的类型（标注类型或关系类型）的属性定义
+  private get editingAttributeSchemas(): AttributeSchema[] {
+    if (this.isEditingRelationship) {
+      return this.relationshipType.find(type => type.type === this.selectedRelationshipType)?.attributes || []
+    }
+    return this.annotationType.find(type => type.type === this.selectedAnnotationType)?.attributes || []
+  }
+
+  // 输入 -- 属性值变化
+  private handleAttributeChange(schema: AttributeSchema, e: Event) {
+    const target = e.target as HTMLInputElement | HTMLSelectElement
+    const input = target instanceof HTMLInputElement && target.type === 'checkbox' ? target.checked : target.value
+    const value = parseAttributeInput(schema, input)
+
+    const values = { ...this.editAttributeValues }
+    if (value === undefined) {
+      delete values[schema.name]
+    } else {
+      values[schema.name] = value
+    }
+    this.editAttributeValues = values
   }
 
   // 输入 -- 输入框输入
@@ -2255,6 +4814,12 @@ export class YsTextAnnotation extends LitElement {
     } else if (e.key === 'Escape') {
       // 按 Escape 重置到默认模式
       this.resetToDefaultMode()
+    } else {
+      return
+    }
+    // 编辑层关闭后焦点交还给组件，以便继续使用键盘操作
+    if (this.functionMode === FunctionMode.DEFAULT) {
+      this.updateComplete.then(() => this.focus({ preventScroll: true }))
     }
   }
 
@@ -2269,13 +4834,34 @@ export class YsTextAnnotation extends LitElement {
         const selectedTypeObj = this.relationshipType.find(type => type.type === this.selectedRelationshipType)
         const typeColor = selectedTypeObj?.color || relationship.color || 'var(--default-line-color)'
 
+        // 验证属性值，验证失败时保持编辑层打开
+        const attributeSchemas = selectedTypeObj?.attributes || []
+        const attributeError = validateAttributes(attributeSchemas, this.editAttributeValues)
+        if (attributeError) {
+          this.dispatchError(attributeError, 'ATTRIBUTE_VALIDATION_FAILED', {
+            type: this.selectedRelationshipType,
+            attributes: this.editAttributeValues
+          })
+          return
+        }
+
         const updatedRelationship: RelationshipItem = {
           ...relationship,
           type: this.selectedRelationshipType,
           description: this.editInputValue.trim(),
           color: typeColor
         }
+        // 类型未定义属性时保留关系原有的属性值
+        if (attributeSchemas.length > 0) {
+          const attributes = pickAttributes(attributeSchemas, this.editAttributeValues)
+          if (Object.keys(attributes).length > 0) {
+            updatedRelationship.attributes = attributes
+          } else {
+            delete updatedRelationship.attributes
+          }
+        }
 
+        this.recordHistory()
         this.relationships = this.relationships.map(rel => (rel.id === updatedRelationship.id ? updatedRelationship : rel))
       }
       this.resetToDefaultMode()
@@ -2289,38 +4875,58 @@ export class YsTextAnnotation extends LitElement {
     }
 
     // 查找选中的类型对应的颜色
+    // 类型未设置颜色时继承父类型的颜色
     const selectedTypeObj = this.annotationType.find(type => type.type === this.selectedAnnotationType)
-    const typeColor = selectedTypeObj?.color || 'var(--default-node-color)'
+    const typeColor = resolveTypeColor(this.selectedAnnotationType, this.annotationType) || 'var(--default-node-color)'
 
     const trimmedDescription = this.editInputValue.trim()
 
+    // 验证属性值（必填、数值、可选范围），验证失败时阻止创建/更新
+    const attributeSchemas = selectedTypeObj?.attributes || []
+    const attributeError = validateAttributes(attributeSchemas, this.editAttributeValues)
+    if (attributeError) {
+      this.dispatchError(attributeError, 'ATTRIBUTE_VALIDATION_FAILED', {
+        type: this.selectedAnnotationType,
+        attributes: this.editAttributeValues
+      })
+      return
+    }
+
     // 判断是创建模式还是编辑模式（通过 editingAnnotationId 判断）
     const isEditing = !!this.editingAnnotationId
 
+    // 合并所有片段得到标注范围（只有一个片段时即普通标注，跨行时包含 endLineId）
+    const annotationRange = mergeFragments(this.selectionRanges)
+
+    // 整理属性值：类型未定义属性时保留标注原有的属性值
+    const originalAttributes = isEditing ? this.annotations.find(ann => ann.id === this.editingAnnotationId)?.attributes : undefined
+    const attributes = attributeSchemas.length > 0 ? pickAttributes(attributeSchemas, this.editAttributeValues) : originalAttributes
+
     if (isEditing && this.editingAnnotationId) {
       // 编辑模式：更新已有标注
       const updatedAnnotation: AnnotationItem = {
         id: this.editingAnnotationId,
-        lineId: this.selectedTextInfo.lineId,
-        start: this.selectedTextInfo.start,
-        end: this.selectedTextInfo.end,
-        content: this.selectedTextInfo.content,
+        ...annotationRange,
         type: this.selectedAnnotationType,
         description: trimmedDescription,
         color: typeColor
       }
+      if (attributes && Object.keys(attributes).length > 0) {
+        updatedAnnotation.attributes = attributes
+      }
+      this.recordHistory()
       this.annotations = this.annotations.map(ann => (ann.id === updatedAnnotation.id ? updatedAnnotation : ann))
     } else {
       // 创建模式：创建新标注前进行确认验证
       const newAnnotation: Omit<AnnotationItem, 'id'> = {
-        lineId: this.selectedTextInfo.lineId,
-        start: this.selectedTextInfo.start,
-        end: this.selectedTextInfo.end,
-        content: this.selectedTextInfo.content,
+        ...annotationRange,
         type: this.selectedAnnotationType,
         description: trimmedDescription,
         color: typeColor
       }
+      if (attributes && Object.keys(attributes).length > 0) {
+        newAnnotation.attributes = attributes
+      }
 
       // 如果设置了标注确认验证器，调用它进行验证
       if (this.annotationConfirmValidator) {
@@ -2347,6 +4953,7 @@ export class YsTextAnnotation extends LitElement {
         id: newId,
         ...newAnnotation
       }
+      this.recordHistory()
       this.annotations = [...this.annotations, finalAnnotation]
     }
 
@@ -2411,6 +5018,8 @@ export class YsTextAnnotation extends LitElement {
   private renderEditLayer() {
     // 获取可用的关系类型列表（仅在编辑关系时使用过滤器）
     const availableRelationshipTypes = this.getAvailableRelationshipTypes()
+    // 非连续标注的片段数量
+    const fragmentCount = this.selectionRanges.length
 
     return html`${this.editLayerVisible
       ? html`<div
@@ -2430,6 +5039,7 @@ export class YsTextAnnotation extends LitElement {
                     type => html`<option value=${type.type} style=${styleMap({ color: type.color })}>${type.type}</option>`
                   )}
                 </select>
+                ${this.renderAttributeFields(this.editingAttributeSchemas)}
                 <input
                   type="text"
                   .value=${this.editInputValue}
@@ -2440,14 +5050,23 @@ export class YsTextAnnotation extends LitElement {
                 <button @click=${this.handleConfirmEdit}>确认</button>
               `
             : html`
-                <select required .value=${this.selectedAnnotationType} @change=${this.handleTypeSelectChange} @keydown=${this.handleInputKeyDown}>
-                  <option value="" disabled>选择类型</option>
-                  ${repeat(
-                    this.annotationType,
-                    type => type.type,
-                    type => html`<option value=${type.type} style=${styleMap({ color: type.color })}>${type.type}</option>`
-                  )}
-                </select>
+                ${fragmentCount > 1
+                  ? html`<span class="edit-layer-fragments" title="按住 Shift 选择文本可继续追加片段">${fragmentCount} 个片段</span>`
+                  : null}
+                ${this.hasTypeHierarchy
+                  ? this.renderTypePicker()
+                  : html`<select required .value=${this.selectedAnnotationType} @change=${this.handleTypeSelectChange} @keydown=${this.handleInputKeyDown}>
+                      <option value="" disabled>选择类型</option>
+                      ${repeat(
+                        this.annotationType,
+                        type => type.type,
+                        type => {
+                          const typeColor = resolveTypeColor(type.type, this.annotationType)
+                          return html`<option value=${type.type} style=${styleMap({ color: typeColor })}>${type.type}</option>`
+                        }
+                      )}
+                    </select>`}
+                ${this.renderAttributeFields(this.editingAttributeSchemas)}
                 <input
                   type="text"
                   .value=${this.editInputValue}
@@ -2461,6 +5080,92 @@ export class YsTextAnnotation extends LitElement {
       : null}`
   }
 
+  // 渲染 -- 层级类型选择器（可折叠、可搜索，搜索时显示匹配的类型及其祖先）
+  private renderTypePicker() {
+    const matches = this.typePickerMatches
+    const visibleTypes = matches ? new Set(matches.flatMap(type => [type.type, ...getTypeAncestors(type.type, this.annotationType)])) : null
+
+    const renderNode = (node: AnnotationTypeNode): Array<ReturnType<typeof html>> => {
+      const typeName = node.type.type
+      if (visibleTypes && !visibleTypes.has(typeName)) return []
+
+      const hasChildren = node.children.length > 0
+      const expanded = !!visibleTypes || this.expandedTypes.has(typeName)
+      const itemClassMap = classMap({
+        'type-picker-item': true,
+        selected: typeName === this.selectedAnnotationType,
+        matched: !!matches && matches.some(type => type.type === typeName)
+      })
+      return [
+        html`<div class=${itemClassMap} style=${styleMap({ 'padding-left': `${node.depth + 0.25}rem` })} @click=${() => this.handleTypePick(typeName)}>
+          <span class="type-picker-toggle" @click=${(e: MouseEvent) => hasChildren && this.handleTypeExpandToggle(e, typeName)}
+            >${hasChildren ? (expanded ? '▾' : '▸') : ''}</span
+          >
+          <span class="type-picker-color" style=${styleMap({ background: resolveTypeColor(typeName, this.annotationType) || null })}></span>
+          <span class="type-picker-name">${typeName}</span>
+        </div>`,
+        ...(expanded ? node.children.flatMap(renderNode) : [])
+      ]
+    }
+
+    const items = buildAnnotationTypeTree(this.annotationType).flatMap(renderNode)
+
+    return html`<div class="type-picker">
+      <button type="button" class="type-picker-trigger" @click=${this.handleTypePickerToggle}>
+        ${this.selectedAnnotationType ? getTypePath(this.selectedAnnotationType, this.annotationType) : '选择类型'}
+      </button>
+      ${this.typePickerOpen
+        ? html`<div class="type-picker-panel">
+            <input
+              class="type-picker-search"
+              type="text"
+              .value=${this.typePickerKeyword}
+              @input=${(e: Event) => (this.typePickerKeyword = (e.target as HTMLInputElement).value)}
+              @keydown=${this.handleTypePickerKeyDown}
+              placeholder="搜索类型"
+            />
+            <div class="type-picker-list">${items.length > 0 ? items : html`<div class="type-picker-empty">无匹配类型</div>`}</div>
+          </div>`
+        : null}
+    </div>`
+  }
+
+  // 渲染 -- 编辑层中的属性表单（按属性定义渲染对应的输入控件）
+  private renderAttributeFields(schemas: AttributeSchema[]) {
+    if (schemas.length === 0) return null
+
+    return html`<div class="edit-layer-attributes">
+      ${repeat(
+        schemas,
+        schema => schema.name,
+        schema => {
+          const value = this.editAttributeValues[schema.name]
+          const onChange = (e: Event) => this.handleAttributeChange(schema, e)
+          let control
+          if (schema.type === 'enum') {
+            control = html`<select .value=${value === undefined ? '' : String(value)} @change=${onChange} @keydown=${this.handleInputKeyDown}>
+              <option value="">${schema.required ? '请选择' : '（空）'}</option>
+              ${(schema.options || []).map(option => html`<option value=${option}>${option}</option>`)}
+            </select>`
+          } else if (schema.type === 'boolean') {
+            control = html`<input type="checkbox" .checked=${value === true} @change=${onChange} @keydown=${this.handleInputKeyDown} />`
+          } else {
+            control = html`<input
+              type=${schema.type === 'number' ? 'number' : 'text'}
+              .value=${value === undefined ? '' : String(value)}
+              @input=${onChange}
+              @keydown=${this.handleInputKeyDown}
+            />`
+          }
+          return html`<label class="edit-layer-attribute">
+            <span class="edit-layer-attribute-label">${getAttributeLabel(schema)}${schema.required ? html`<em>*</em>` : null}</span>
+            ${control}
+          </label>`
+        }
+      )}
+    </div>`
+  }
+
   /**
    * -------------------------------------------------- 右键菜单相关状态 --------------------------------------------------
    */
@@ -2477,20 +5182,34 @@ export class YsTextAnnotation extends LitElement {
 
   // 开启 -- 开启右键菜单
   private handleAnnotationContextMenu(e: MouseEvent, annotationId: string) {
-    // 如果正在创建关系，不允许右键菜单
-    if (this.functionMode === FunctionMode.CREATING_RELATIONSHIP) return
+    // 如果正在创建关系、事件或修改文本，不允许右键菜单
+    if (
+      this.functionMode === FunctionMode.CREATING_RELATIONSHIP ||
+      this.functionMode === FunctionMode.CREATING_EVENT ||
+      this.functionMode === FunctionMode.EDITING_TEXT
+    ) {
+      return
+    }
     // 如果 editingEnabled 为 false，不允许切换模式
     if (!this.editingEnabled) return
     e.preventDefault()
     e.stopPropagation()
+    this.openAnnotationContextMenu(annotationId, e)
+  }
 
+  // 开启 -- 在指定位置开启标注的右键菜单（鼠标右键或键盘操作）
+  private openAnnotationContextMenu(annotationId: string, point: { clientX: number; clientY: number }) {
     // 重置文本选择状态，确保右键菜单可以正常显示
     this.isSelectingText = false
-    this.contextMenuPosition = calculateContextMenuPosition(e, this.mainContainer, this.scrollContainer)
+    this.contextMenuPosition = calculateContextMenuPosition(point, this.mainContainer, this.scrollContainer)
     this.contextMenuTarget = { type: 'annotation', id: annotationId }
 
     // 切换到右键菜单模式
     this.functionMode = FunctionMode.CONTEXT_MENU_OPEN
+    // 键盘打开时将焦点移动到第一个菜单项
+    if (this.matches(':focus-within')) {
+      this.updateComplete.then(() => this.shadowRoot?.querySelector<HTMLElement>('.context-menu-item')?.focus())
+    }
   }
 
   // 点击 -- 创建关系
@@ -2551,14 +5270,8 @@ export class YsTextAnnotation extends LitElement {
     // 如果找不到标注，使用降级方案
     if (!startAnnotation || !endAnnotation) {
       const defaultRelationshipType = this.relationshipType[0]
-      const newRelationship: RelationshipItem = {
-        id: `rel-${Date.now()}`,
-        startId: this.remoteAnnotationId,
-        endId: currentAnnotationId,
-        type: defaultRelationshipType?.type || '',
-        description: '',
-        color: defaultRelationshipType?.color || 'var(--default-line-color)'
-      }
+      const newRelationship = this.createRelationshipItem(this.remoteAnnotationId, currentAnnotationId, defaultRelationshipType)
+      this.recordHistory()
       this.relationships = [...this.relationships, newRelationship]
       this.remoteAnnotationId = null
       this.resetToDefaultMode()
@@ -2631,15 +5344,9 @@ export class YsTextAnnotation extends LitElement {
     }
 
     // 创建新关系
-    const newRelationship: RelationshipItem = {
-      id: `rel-${Date.now()}`,
-      startId: this.remoteAnnotationId!,
-      endId: currentAnnotationId,
-      type: selectedRelationshipType?.type || '',
-      description: '',
-      color: selectedRelationshipType?.color || 'var(--default-line-color)'
-    }
+    const newRelationship = this.createRelationshipItem(this.remoteAnnotationId!, currentAnnotationId, selectedRelationshipType)
 
+    this.recordHistory()
     this.relationships = [...this.relationships, newRelationship]
 
     // 清除远程标注ID
@@ -2664,6 +5371,7 @@ export class YsTextAnnotation extends LitElement {
     this.editingAnnotationId = annotation.id
     this.selectedAnnotationType = annotation.type
     this.editInputValue = annotation.description || ''
+    this.editAttributeValues = { ...getDefaultAttributes(this.editingAttributeSchemas), ...annotation.attributes }
 
     // 创建 SelectedTextInfo 用于定位编辑层
     this.selectedTextInfo = {
@@ -2672,6 +5380,9 @@ export class YsTextAnnotation extends LitElement {
       end: annotation.end,
       content: annotation.content
     }
+    if (annotation.endLineId !== undefined) {
+      this.selectedTextInfo.endLineId = annotation.endLineId
+    }
 
     // 清理右键菜单目标
     this.contextMenuTarget = null
@@ -2715,6 +5426,7 @@ export class YsTextAnnotation extends LitElement {
     this.editingRelationshipId = relationship.id
     this.selectedRelationshipType = relationship.type || ''
     this.editInputValue = relationship.description || ''
+    this.editAttributeValues = { ...getDefaultAttributes(this.editingAttributeSchemas), ...relationship.attributes }
 
     // 保存右键菜单位置用于定位编辑层
     const menuPosition = { ...this.contextMenuPosition }
@@ -2740,16 +5452,22 @@ export class YsTextAnnotation extends LitElement {
 
     if (!this.contextMenuTarget) return
 
+    // 删除标注时级联删除的关系、事件一起记录，撤销时一并恢复
+    this.recordHistory()
     if (this.contextMenuTarget.type === 'annotation') {
       // 删除标注
       const id = this.contextMenuTarget.id
       this.annotations = this.annotations.filter(annotation => annotation.id !== id)
-      // 删除该标注关联的所有关系
-      this.relationships = this.relationships.filter(relationship => relationship.startId !== id && relationship.endId !== id)
+      // 删除该标注关联的所有关系、以该标注为触发词的事件，并从其他事件中移除该论元
+      this.removeAnnotationReferences(new Set([id]))
     } else if (this.contextMenuTarget.type === 'relationship') {
       // 删除关系
       const id = this.contextMenuTarget.id
       this.relationships = this.relationships.filter(relationship => relationship.id !== id)
+    } else if (this.contextMenuTarget.type === 'event') {
+      // 删除事件
+      const id = this.contextMenuTarget.id
+      this.events = this.events.filter(event => event.id !== id)
     }
 
     // 关闭右键菜单，重置到默认模式
@@ -2805,12 +5523,18 @@ export class YsTextAnnotation extends LitElement {
                             >${remoteAnnotation?.content || '标注'}</span
                           >
                         </button>`}
+                  ${this.eventType.length > 0
+                    ? html`<button class="context-menu-item create-event" @click=${this.handleCreateEvent}>创建事件</button>`
+                    : null}
                   <button class="context-menu-item edit-annotation" @click=${this.handleEditAnnotation}>编辑标注</button>
                 `
               : null}
             ${this.contextMenuTarget?.type === 'relationship'
               ? html`<button class="context-menu-item edit-relationship" @click=${this.handleEditRelationship}>编辑关系</button>`
               : null}
+            ${this.contextMenuTarget?.type === 'event'
+              ? html`<button class="context-menu-item edit-event" @click=${this.handleEditEvent}>编辑事件</button>`
+              : null}
             <button class="context-menu-item delete" @click=${this.handleDelete}>删除</button>
           </div>`
         })()
@@ -2831,6 +5555,10 @@ declare global {
     'relationship-added': CustomEvent<RelationshipEventDetail>
     'relationship-updated': CustomEvent<RelationshipEventDetail>
     'relationship-deleted': CustomEvent<RelationshipDeleteEventDetail>
+    'annotations-unanchored': CustomEvent<AnnotationsUnanchoredEventDetail>
+    'text-edit': CustomEvent<TextEditEventDetail>
+    'content-change': CustomEvent<ContentChangeEventDetail>
+    'quick-label-change': CustomEvent<QuickLabelChangeEventDetail>
     error: CustomEvent<ErrorEventDetail>
   }
 }